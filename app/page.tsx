@@ -1,12 +1,34 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useMemo, useRef, useState } from "react";
 import dynamic from "next/dynamic";
-import VideoAnalyzer, {
-  AnalysisResult,
-  AnalyzerStatus
-} from "../components/VideoAnalyzer";
+import VideoAnalyzer, { AnalysisResult, AnalyzerStatus } from "../components/VideoAnalyzer";
 import TelemetryPanel from "../components/TelemetryPanel";
+import DrsPanel from "../components/DrsPanel";
+import BiomechanicsPanel from "../components/BiomechanicsPanel";
+import RunUpPanel from "../components/RunUpPanel";
+import SessionSidebar from "../components/SessionSidebar";
+import LibraryPanel from "../components/LibraryPanel";
+import BowlerProfilePanel from "../components/BowlerProfilePanel";
+import ReportPanel from "../components/ReportPanel";
+import SpellViews from "../components/SpellViews";
+import TrajectoryLegend, { trackColor } from "../components/TrajectoryLegend";
+import ReplayControls, { CameraPreset } from "../components/ReplayControls";
+import type { ViewerTrack } from "../components/HawkEyeViewer";
+import { parseAnalysisFile, serializeDelivery } from "../lib/analysisFile";
+import { baseFileName, downloadBlob } from "../lib/download";
+import { loadFromLibrary } from "../lib/library";
+import type { BowlerProfile } from "../lib/profiles";
+import {
+  createSession,
+  importDelivery,
+  moveDelivery,
+  Delivery,
+  removeDelivery,
+  Session,
+  updateDelivery,
+  upsertDelivery
+} from "../lib/session";
 
 const HawkEyeViewer = dynamic(
   () => import("../components/HawkEyeViewer"),
@@ -23,14 +45,96 @@ const HawkEyeViewer = dynamic(
 
 export default function HomePage() {
   const [status, setStatus] = useState<AnalyzerStatus>("idle");
-  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [session, setSession] = useState<Session>(() => createSession());
+  const [activeDeliveryId, setActiveDeliveryId] = useState<string | null>(null);
   const [selectedKeyFrame, setSelectedKeyFrame] = useState<number>(0);
+  const [showCameraRays, setShowCameraRays] = useState(false);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [cameraPreset, setCameraPreset] = useState<CameraPreset>("free");
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<AnalysisResult | null>(null);
+  const [profiles, setProfiles] = useState<BowlerProfile[]>([]);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const getViewerCanvas = useCallback(
+    () => viewerRef.current?.querySelector("canvas") ?? null,
+    []
+  );
+
+  const activeDelivery = useMemo(
+    () => session.deliveries.find((delivery) => delivery.id === activeDeliveryId) ?? null,
+    [session, activeDeliveryId]
+  );
+  // While a clip is being sampled, its provisional analysis stands in for the active delivery.
+  const result = preview ?? activeDelivery?.analysis ?? null;
+
+  const tracks = useMemo(() => {
+    if (preview) {
+      return [{ id: "preview", label: "Sampling", color: trackColor(0), delivery: preview }];
+    }
+    const all: ViewerTrack[] = session.deliveries.map((delivery, idx) => ({
+      id: delivery.id,
+      label: `Ball ${idx + 1}`,
+      color: trackColor(idx),
+      delivery: delivery.analysis
+    }));
+    const primary = all.find((track) => track.id === activeDeliveryId);
+    if (!primary) return [];
+    return [primary, ...all.filter((track) => comparedIds.includes(track.id) && track !== primary)];
+  }, [session, activeDeliveryId, comparedIds, preview]);
+
+  const selectDelivery = (id: string) => {
+    setActiveDeliveryId(id);
+    setSelectedKeyFrame(0);
+    setReplayPlaying(false);
+  };
+
+  const openDelivery = (delivery: Delivery) => {
+    setSession((prev) => importDelivery(prev, delivery));
+    selectDelivery(delivery.id);
+    setStatus("completed");
+  };
+
+  // Deliveries outside the session are brought in from the library.
+  const openById = async (id: string) => {
+    if (session.deliveries.some((delivery) => delivery.id === id)) {
+      selectDelivery(id);
+      return;
+    }
+    try {
+      const delivery = await loadFromLibrary(id);
+      if (delivery) openDelivery(delivery);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const exportDelivery = (id: string) => {
+    const delivery = session.deliveries.find((entry) => entry.id === id);
+    if (!delivery) return;
+    downloadBlob(
+      new Blob([serializeDelivery(delivery)], { type: "application/json" }),
+      `${baseFileName(delivery.clipName)}.hawkeye.json`
+    );
+  };
+
+  const importAnalysis = async (file: File) => {
+    const parsed = parseAnalysisFile(await file.text());
+    if (!parsed.ok) {
+      setImportErrors([`Could not import ${file.name}:`, ...parsed.errors]);
+      return;
+    }
+    setImportErrors([]);
+    openDelivery(parsed.delivery);
+  };
 
   const deliveryTimeline = useMemo(
     () =>
       result?.frames.map((frame, idx) => ({
         index: idx,
-        label: frame.phase
+        label: frame.phase,
+        sinceRelease: frame.time - (result.frames[result.keyMoments.releaseFrame]?.time ?? 0)
       })) ?? [],
     [result]
   );
@@ -54,8 +158,9 @@ export default function HomePage() {
           <button
             type="button"
             onClick={() => {
-              setResult(null);
+              setActiveDeliveryId(null);
               setSelectedKeyFrame(0);
+              setReplayPlaying(false);
               setStatus("idle");
             }}
           >
@@ -64,58 +169,199 @@ export default function HomePage() {
         </div>
       </section>
 
-      <section className="grid two">
-        <VideoAnalyzer
-          status={status}
-          onStatusChange={setStatus}
-          onResult={(analysis) => {
-            setResult(analysis);
+      <div className="workspace">
+        <SessionSidebar
+          session={session}
+          activeDeliveryId={activeDeliveryId}
+          profiles={profiles}
+          onSelect={selectDelivery}
+          onRename={(name) => setSession((prev) => ({ ...prev, name }))}
+          onUpdate={(id, changes) => setSession((prev) => updateDelivery(prev, id, changes))}
+          onRemove={(id) => {
+            setSession((prev) => removeDelivery(prev, id));
+            if (id === activeDeliveryId) setActiveDeliveryId(null);
+          }}
+          onMove={(id, direction) => setSession((prev) => moveDelivery(prev, id, direction))}
+          onExport={exportDelivery}
+          onImport={importAnalysis}
+          importErrors={importErrors}
+          onNewSession={() => {
+            setSession(createSession());
+            setActiveDeliveryId(null);
+            setComparedIds([]);
+            setImportErrors([]);
             setSelectedKeyFrame(0);
           }}
-          onSeek={(index) => setSelectedKeyFrame(index)}
-          currentKeyFrame={selectedKeyFrame}
         />
-        <TelemetryPanel status={status} result={result} />
-      </section>
 
-      <section className="panel">
-        <h3>Delivery Timeline</h3>
-        {deliveryTimeline.length === 0 ? (
-          <p>
-            Process the video to unlock ball release, pitch, and predicted impact
-            markers. Each stage is linked to the simulated Hawk-Eye camera.
-          </p>
-        ) : (
-          <>
-            <div className="timeline">
-              <input
-                type="range"
-                min={0}
-                max={deliveryTimeline.length - 1}
-                value={selectedKeyFrame}
-                onChange={(evt) => setSelectedKeyFrame(Number(evt.target.value))}
-              />
-              <span className="chip">
-                {deliveryTimeline[selectedKeyFrame]?.label ?? "Frame"}
-              </span>
+        <div className="grid">
+          <section className="grid two">
+            <VideoAnalyzer
+              status={status}
+              onStatusChange={setStatus}
+              onResult={(analysis, clip) => {
+                setSession((prev) => upsertDelivery(prev, clip, analysis).session);
+                setActiveDeliveryId(clip.key);
+                setSelectedKeyFrame(0);
+                setReplayPlaying(false);
+              }}
+              onRefined={(analysis, clip) =>
+                setSession((prev) => upsertDelivery(prev, clip, analysis).session)
+              }
+              onSeek={(index) => setSelectedKeyFrame(index)}
+              currentKeyFrame={selectedKeyFrame}
+              getViewerCanvas={getViewerCanvas}
+              restore={activeDelivery}
+              onPreview={setPreview}
+            />
+            <div className="grid">
+              <TelemetryPanel status={status} result={result} />
+              <DrsPanel result={result} />
             </div>
-            <p>
-              Scrub through the delivery phases. Key frames have been tagged for
-              load-up, release, pitch, and stumps.
-            </p>
-          </>
-        )}
-      </section>
+          </section>
+
+          <section className="panel">
+            <h3>Delivery Timeline</h3>
+            {deliveryTimeline.length === 0 ? (
+              <p>
+                Process the video to unlock ball release, pitch, and predicted impact
+                markers. Each stage is linked to the simulated Hawk-Eye camera.
+              </p>
+            ) : (
+              <>
+                <div className="timeline">
+                  <input
+                    type="range"
+                    min={0}
+                    max={deliveryTimeline.length - 1}
+                    value={selectedKeyFrame}
+                    onChange={(evt) => setSelectedKeyFrame(Number(evt.target.value))}
+                  />
+                  <span className="chip">
+                    {deliveryTimeline[selectedKeyFrame]?.label ?? "Frame"}
+                  </span>
+                  {tracks.length > 1 && (
+                    <span className="chip">
+                      {(deliveryTimeline[selectedKeyFrame]?.sinceRelease ?? 0).toFixed(2)} s from
+                      release
+                    </span>
+                  )}
+                </div>
+                <p>
+                  Scrub through the delivery phases. Key frames have been tagged for
+                  load-up, release, pitch, and stumps.
+                </p>
+              </>
+            )}
+          </section>
 
-      <section className="panel">
-        <h3>Hawk-Eye Reconstruction</h3>
-        <div className="three-container">
-          <HawkEyeViewer
-            delivery={result}
-            keyFrameIndex={selectedKeyFrame}
+          <BiomechanicsPanel
+            result={result}
+            currentKeyFrame={selectedKeyFrame}
+            onSeek={setSelectedKeyFrame}
           />
+
+          <RunUpPanel
+            result={result}
+            currentKeyFrame={selectedKeyFrame}
+            onSeek={setSelectedKeyFrame}
+          />
+
+          <section className="panel">
+            <h3>Hawk-Eye Reconstruction</h3>
+            {result?.fusion && (
+              <div className="chip-row">
+                <label className="chip">
+                  <input
+                    type="checkbox"
+                    checked={showCameraRays}
+                    onChange={(evt) => setShowCameraRays(evt.target.checked)}
+                  />{" "}
+                  Show camera rays
+                </label>
+                <span className="chip">
+                  Mean triangulation error:{" "}
+                  {(
+                    ((result.trajectoryError ?? []).reduce((acc, value) => acc + value, 0) /
+                      Math.max(result.trajectoryError?.length ?? 0, 1)) *
+                    100
+                  ).toFixed(1)}{" "}
+                  cm
+                </span>
+              </div>
+            )}
+            {result && session.deliveries.length > 1 && (
+              <TrajectoryLegend
+                deliveries={session.deliveries}
+                activeDeliveryId={activeDeliveryId}
+                comparedIds={comparedIds}
+                onToggle={(id, shown) =>
+                  setComparedIds((prev) =>
+                    shown ? [...prev, id] : prev.filter((entry) => entry !== id)
+                  )
+                }
+              />
+            )}
+            <ReplayControls
+              playing={replayPlaying}
+              speed={replaySpeed}
+              preset={cameraPreset}
+              disabled={!result}
+              onPlayingChange={setReplayPlaying}
+              onSpeedChange={setReplaySpeed}
+              onPresetChange={setCameraPreset}
+            />
+            <div className="three-container" ref={viewerRef}>
+              <HawkEyeViewer
+                tracks={tracks}
+                keyFrameIndex={selectedKeyFrame}
+                showCameraRays={showCameraRays && Boolean(result?.fusion)}
+                playing={replayPlaying}
+                playbackRate={replaySpeed}
+                cameraPreset={cameraPreset}
+                onFrameChange={setSelectedKeyFrame}
+                onReplayEnd={() => setReplayPlaying(false)}
+              />
+            </div>
+          </section>
+
+          {session.deliveries.length > 0 && (
+            <section className="panel">
+              <h3>Spell Analysis</h3>
+              <SpellViews
+                deliveries={session.deliveries}
+                activeDeliveryId={activeDeliveryId}
+                onSelect={selectDelivery}
+              />
+            </section>
+          )}
+
+          <section className="panel">
+            <h3>Coaching Report</h3>
+            <ReportPanel
+              sessionName={session.name}
+              deliveries={session.deliveries}
+              activeDeliveryId={activeDeliveryId}
+            />
+          </section>
+
+          <section className="panel">
+            <h3>Library</h3>
+            <LibraryPanel current={activeDelivery} onOpen={openDelivery} />
+          </section>
+
+          <section className="panel">
+            <h3>Bowler Profiles</h3>
+            <BowlerProfilePanel
+              profiles={profiles}
+              onProfilesChange={setProfiles}
+              deliveries={session.deliveries}
+              activeDeliveryId={activeDeliveryId}
+              onOpen={openById}
+            />
+          </section>
         </div>
-      </section>
+      </div>
     </main>
   );
 }
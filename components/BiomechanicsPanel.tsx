@@ -0,0 +1,101 @@
+"use client";
+
+import { useMemo } from "react";
+import { ELBOW_TOLERANCE_DEGREES, assessElbowExtension } from "../lib/biomechanics";
+import LineChart from "./LineChart";
+import type { AnalysisResult } from "./VideoAnalyzer";
+
+interface BiomechanicsPanelProps {
+  result: AnalysisResult | null;
+  currentKeyFrame: number;
+  onSeek: (frameIndex: number) => void;
+}
+
+const BiomechanicsPanel = ({ result, currentKeyFrame, onSeek }: BiomechanicsPanelProps) => {
+  const elbow = useMemo(
+    () => (result ? assessElbowExtension(result.frames, result.keyMoments.releaseFrame) : null),
+    [result]
+  );
+  const assessment = elbow?.ok ? elbow.assessment : null;
+
+  const flexion = useMemo(
+    () =>
+      (assessment?.curve ?? []).flatMap(({ frameIndex, time, flexion: value }) =>
+        value == null ? [] : [{ frameIndex, time, value }]
+      ),
+    [assessment]
+  );
+
+  return (
+    <div className="panel">
+      <h3>Bowling Action</h3>
+      <p>
+        Elbow extension of the bowling arm from upper-arm horizontal to release, screened against
+        the {ELBOW_TOLERANCE_DEGREES}° tolerance.
+      </p>
+
+      {!result ? (
+        <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+          Upload a clip to screen the bowling action.
+        </span>
+      ) : !assessment ? (
+        <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+          {elbow && !elbow.ok ? elbow.reason : "The action could not be measured."}
+        </span>
+      ) : (
+        <>
+          <div className="drs-table">
+            <div className="drs-row">
+              <span>Bowling arm</span>
+              <strong>{assessment.arm === "right" ? "Right" : "Left"}</strong>
+            </div>
+            <div className="drs-row">
+              <span>Most flexed / at release</span>
+              <strong>
+                {assessment.maxFlexion.toFixed(1)}° / {assessment.releaseFlexion.toFixed(1)}°
+              </strong>
+            </div>
+            <div className="drs-row decision">
+              <span>Extension {assessment.extension.toFixed(1)}°</span>
+              <strong className={`drs-verdict ${assessment.legal ? "good" : "bad"}`}>
+                {assessment.legal ? "Within Tolerance" : "Over Tolerance"}
+              </strong>
+            </div>
+          </div>
+
+          <LineChart
+            samples={flexion}
+            label="Elbow flexion from upper-arm horizontal to release"
+            unit="°"
+            startLabel="Arm horizontal"
+            endLabel="Release"
+            minTop={30}
+            currentKeyFrame={currentKeyFrame}
+            onSeek={onSeek}
+          />
+
+          <div className="chip-row">
+            {assessment.worstFrames.map((sample) => (
+              <button
+                key={sample.frameIndex}
+                type="button"
+                className="chip"
+                onClick={() => onSeek(sample.frameIndex)}
+              >
+                {sample.time.toFixed(2)} s • {sample.extension?.toFixed(1)}° extended
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      <span className="biomechanics-caveat">
+        Screening only. Angles come from 2D keypoints in a single view, so an arm that is not
+        square to the camera reads as more or less bent than it is, and keypoint jitter adds
+        several degrees. Official testing uses calibrated 3D motion capture.
+      </span>
+    </div>
+  );
+};
+
+export default BiomechanicsPanel;
@@ -0,0 +1,310 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { deleteProfile, listLibrary, listProfiles, saveProfile } from "../lib/library";
+import {
+  BOWLING_ARMS,
+  BOWLING_TYPES,
+  BowlerProfile,
+  BowlingArm,
+  BowlingType,
+  PACE_BANDS,
+  PaceBand,
+  ProfileDelivery,
+  TREND_METRICS,
+  WorkloadLimits,
+  createProfile,
+  describeProfile,
+  measureWorkload,
+  trendOf,
+  workloadAlerts
+} from "../lib/profiles";
+import type { Delivery } from "../lib/session";
+import LineChart from "./LineChart";
+
+interface BowlerProfilePanelProps {
+  profiles: BowlerProfile[];
+  onProfilesChange: (profiles: BowlerProfile[]) => void;
+  // Deliveries of the current session, which may not be in the library yet.
+  deliveries: Delivery[];
+  activeDeliveryId: string | null;
+  onOpen: (id: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseLimit = (value: string) => (value === "" ? null : Number(value));
+const formatDay = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+/** Bowler profiles with their trends over time and delivery workload. Stays on the device. */
+const BowlerProfilePanel = ({
+  profiles,
+  onProfilesChange,
+  deliveries,
+  activeDeliveryId,
+  onOpen
+}: BowlerProfilePanelProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [stored, setStored] = useState<(ProfileDelivery & { profileId: string | null })[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const profile = profiles.find((entry) => entry.id === selectedId) ?? profiles[0] ?? null;
+
+  const run = useCallback(async (action: () => Promise<void>, failure: string) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setMessage((err as Error).message || failure);
+    }
+  }, []);
+
+  useEffect(() => {
+    run(async () => {
+      const [listed, entries] = await Promise.all([listProfiles(), listLibrary()]);
+      onProfilesChange(listed);
+      setStored(
+        entries.flatMap(({ id, profileId, recordedAt, summary, confidence }) =>
+          summary ? [{ id, profileId, recordedAt, summary, confidence }] : []
+        )
+      );
+    }, "Profiles could not be loaded.");
+  }, [run, onProfilesChange]);
+
+  // Session deliveries are newer than any stored copy of the same clip.
+  const history = useMemo(() => {
+    if (!profile) return [];
+    const inSession = new Set(deliveries.map((delivery) => delivery.id));
+    return [
+      ...stored.filter((entry) => !inSession.has(entry.id) && entry.profileId === profile.id),
+      ...deliveries
+        .filter((delivery) => delivery.profileId === profile.id)
+        .map((delivery) => ({
+          id: delivery.id,
+          recordedAt: delivery.recordedAt,
+          summary: delivery.analysis.summary,
+          confidence: delivery.analysis.confidence
+        }))
+    ];
+  }, [profile, stored, deliveries]);
+
+  const workload = useMemo(() => measureWorkload(history), [history]);
+  const alerts = profile ? workloadAlerts(workload, profile.limits) : [];
+  const busiestDay = Math.max(...workload.days.map((day) => day.deliveries), 1);
+
+  const update = (changes: Partial<BowlerProfile>) => {
+    if (!profile) return;
+    const next = { ...profile, ...changes };
+    onProfilesChange(profiles.map((entry) => (entry.id === next.id ? next : entry)));
+    run(() => saveProfile(next), "The profile could not be saved.");
+  };
+  const updateLimits = (changes: Partial<WorkloadLimits>) =>
+    profile && update({ limits: { ...profile.limits, ...changes } });
+
+  const addProfile = () => {
+    const created = createProfile(`Bowler ${profiles.length + 1}`);
+    onProfilesChange([...profiles, created]);
+    setSelectedId(created.id);
+    run(() => saveProfile(created), "The profile could not be saved.");
+  };
+
+  const removeProfile = (id: string) => {
+    onProfilesChange(profiles.filter((entry) => entry.id !== id));
+    setSelectedId(null);
+    run(() => deleteProfile(id), "The profile could not be deleted.");
+  };
+
+  return (
+    <div className="profiles">
+      <div className="chip-row">
+        {profiles.length > 0 && (
+          <select
+            className="chip"
+            value={profile?.id ?? ""}
+            onChange={(evt) => setSelectedId(evt.target.value)}
+            aria-label="Bowler profile"
+          >
+            {profiles.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.name || "Unnamed bowler"}
+              </option>
+            ))}
+          </select>
+        )}
+        <button type="button" className="chip" onClick={addProfile}>
+          New Profile
+        </button>
+        {profile && (
+          <button type="button" className="chip" onClick={() => removeProfile(profile.id)}>
+            Delete Profile
+          </button>
+        )}
+      </div>
+
+      {message && <span style={{ color: "#ff8a8a" }}>{message}</span>}
+
+      {!profile ? (
+        <p>
+          Create a profile for each bowler, then pick it for a delivery in the session to follow
+          their pace, release, and workload over time. Profiles stay on this device.
+        </p>
+      ) : (
+        <>
+          <div className="chip-row">
+            <input
+              className="chip"
+              value={profile.name}
+              onChange={(evt) => update({ name: evt.target.value })}
+              aria-label="Bowler name"
+            />
+            <select
+              className="chip"
+              value={profile.arm}
+              onChange={(evt) => update({ arm: evt.target.value as BowlingArm })}
+              aria-label="Bowling arm"
+            >
+              {BOWLING_ARMS.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="chip"
+              value={profile.bowlingType}
+              onChange={(evt) => update({ bowlingType: evt.target.value as BowlingType })}
+              aria-label="Bowling type"
+            >
+              {BOWLING_TYPES.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="chip"
+              value={profile.paceBand}
+              onChange={(evt) => update({ paceBand: evt.target.value as PaceBand })}
+              aria-label="Pace band"
+            >
+              {PACE_BANDS.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+            {describeProfile(profile)} • {history.length} analysed deliveries
+          </span>
+
+          <div className="telemetry compact">
+            <div className="telemetry-card">
+              <strong>{workload.today}</strong>
+              <span>Today</span>
+            </div>
+            <div className="telemetry-card">
+              <strong>{workload.lastSevenDays}</strong>
+              <span>Last 7 Days</span>
+            </div>
+            <div className="telemetry-card">
+              <strong>
+                {workload.chronicWeekly == null ? "--" : workload.chronicWeekly.toFixed(0)}
+              </strong>
+              <span>4-Week Average / Week</span>
+            </div>
+            <div className="telemetry-card">
+              <strong>{workload.ratio == null ? "--" : `${workload.ratio.toFixed(2)}×`}</strong>
+              <span>Acute : Chronic</span>
+            </div>
+          </div>
+
+          <div className="workload-bars" aria-label="Deliveries per day, last 14 days">
+            {workload.days.map((day) => (
+              <span
+                key={day.start}
+                className={
+                  profile.limits.daily != null && day.deliveries > profile.limits.daily
+                    ? "over"
+                    : undefined
+                }
+                style={{ height: `${(day.deliveries / busiestDay) * 100}%` }}
+                title={`${formatDay(day.start)} • ${day.deliveries} deliveries`}
+              />
+            ))}
+          </div>
+
+          <div className="chip-row">
+            <label className="chip">
+              Daily limit{" "}
+              <input
+                type="number"
+                min={0}
+                value={profile.limits.daily ?? ""}
+                onChange={(evt) => updateLimits({ daily: parseLimit(evt.target.value) })}
+              />
+            </label>
+            <label className="chip">
+              Weekly limit{" "}
+              <input
+                type="number"
+                min={0}
+                value={profile.limits.weekly ?? ""}
+                onChange={(evt) => updateLimits({ weekly: parseLimit(evt.target.value) })}
+              />
+            </label>
+            <label className="chip">
+              Spike ratio{" "}
+              <input
+                type="number"
+                min={1}
+                step={0.1}
+                value={profile.limits.spikeRatio ?? ""}
+                onChange={(evt) => updateLimits({ spikeRatio: parseLimit(evt.target.value) })}
+              />
+            </label>
+          </div>
+          {alerts.map((alert) => (
+            <span key={alert} style={{ color: "#ff8a8a" }}>
+              {alert}
+            </span>
+          ))}
+          <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+            Workload counts analysed clips only; leave a limit empty to turn its alert off.
+          </span>
+
+          {TREND_METRICS.map((metric) => {
+            const trend = trendOf(history, metric.key);
+            if (trend.length < 2) return null;
+            return (
+              <div key={metric.key} className="profile-trend">
+                <span>{metric.label}</span>
+                <LineChart
+                  samples={trend.map((point, idx) => ({
+                    frameIndex: idx,
+                    time: point.recordedAt / DAY_MS,
+                    value: point.value
+                  }))}
+                  label={`${metric.label} over time`}
+                  unit={metric.unit}
+                  minTop={metric.minTop}
+                  formatTime={(days) => formatDay(days * DAY_MS)}
+                  currentKeyFrame={trend.findIndex((point) => point.id === activeDeliveryId)}
+                  onSeek={(idx) => onOpen(trend[idx].id)}
+                />
+              </div>
+            );
+          })}
+          {history.length < 2 && (
+            <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+              Trends appear once two deliveries are attached to this profile.
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BowlerProfilePanel;
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { parseAnalysisFile } from "../lib/analysisFile";
+import {
+  BackendChoice,
+  DetectorSettings,
+  POSE_MODELS,
+  PoseFixtureFrame,
+  PoseModel,
+  TF_BACKENDS
+} from "../lib/poseModels";
+
+interface DetectorSettingsPanelProps {
+  settings: DetectorSettings;
+  fixtureName: string | null;
+  // Changes are held back while a clip is being sampled.
+  disabled: boolean;
+  onChange: (settings: DetectorSettings) => void;
+  onFixture: (name: string, frames: PoseFixtureFrame[]) => void;
+}
+
+/** Pose model and TensorFlow backend picker for the next clip analysed. */
+const DetectorSettingsPanel = ({
+  settings,
+  fixtureName,
+  disabled,
+  onChange,
+  onFixture
+}: DetectorSettingsPanelProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const model = POSE_MODELS.find((entry) => entry.id === settings.model);
+
+  const loadFixture = async (file: File) => {
+    const parsed = parseAnalysisFile(await file.text());
+    if (!parsed.ok) {
+      setError(parsed.errors.join("; "));
+      return;
+    }
+    setError(null);
+    onFixture(
+      file.name,
+      parsed.delivery.analysis.frames.map(({ time, people }) => ({ time, people }))
+    );
+  };
+
+  return (
+    <div className="calibration-bar">
+      <div className="chip-row">
+        <select
+          className="chip"
+          value={settings.model}
+          disabled={disabled}
+          onChange={(evt) => onChange({ ...settings, model: evt.target.value as PoseModel })}
+          aria-label="Pose model"
+        >
+          {POSE_MODELS.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        {settings.model === "fixture" ? (
+          <>
+            <label htmlFor="pose-fixture" className="chip">
+              {fixtureName ?? "Choose analysis export"}
+            </label>
+            <input
+              id="pose-fixture"
+              type="file"
+              accept="application/json,.json"
+              style={{ display: "none" }}
+              disabled={disabled}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) loadFixture(file);
+                event.target.value = "";
+              }}
+            />
+          </>
+        ) : (
+          <select
+            className="chip"
+            value={settings.backend}
+            disabled={disabled}
+            onChange={(evt) =>
+              onChange({ ...settings, backend: evt.target.value as BackendChoice })
+            }
+            aria-label="TensorFlow backend"
+          >
+            {TF_BACKENDS.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+        {model?.description} A backend that cannot start falls back to the next of WebGL,
+        WebAssembly and CPU.
+      </span>
+      {error && <span style={{ color: "#ff8a8a" }}>{error}</span>}
+    </div>
+  );
+};
+
+export default DetectorSettingsPanel;
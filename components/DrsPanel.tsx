@@ -0,0 +1,143 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  BatterHand,
+  ImpactVerdict,
+  OnFieldDecision,
+  PitchingVerdict,
+  WicketsVerdict,
+  evaluateLbw
+} from "../lib/lbw";
+import type { AnalysisResult } from "./VideoAnalyzer";
+
+interface DrsPanelProps {
+  result: AnalysisResult | null;
+}
+
+type RowVerdict = PitchingVerdict | ImpactVerdict | WicketsVerdict | "full-toss";
+
+const VERDICT_LABELS: Record<RowVerdict, string> = {
+  "full-toss": "Full Toss",
+  "in-line": "In Line",
+  "outside-off": "Outside Off",
+  "outside-leg": "Outside Leg",
+  outside: "Outside",
+  "umpires-call": "Umpire's Call",
+  hitting: "Hitting",
+  missing: "Missing"
+};
+
+const verdictTone = (value: RowVerdict | null) => {
+  if (value === "in-line" || value === "hitting" || value === "outside-off") return "good";
+  if (value === "full-toss") return "good";
+  if (value === "umpires-call") return "call";
+  if (value == null) return "";
+  return "bad";
+};
+
+const DrsPanel = ({ result }: DrsPanelProps) => {
+  const [batterHand, setBatterHand] = useState<BatterHand>("right");
+  const [onField, setOnField] = useState<OnFieldDecision>("not-out");
+  const [shotOffered, setShotOffered] = useState(true);
+
+  const reconstruction = result?.reconstruction;
+  // Without calibration the line is image-right (mirrored from behind the arm) and depth is
+  // assumed, so no verdict would mean anything.
+  const uncalibrated = Boolean(reconstruction?.assumedDepth);
+  const decision = useMemo(() => {
+    if (!result || !reconstruction || reconstruction.assumedDepth) return null;
+    return evaluateLbw(
+      {
+        path: result.trajectory,
+        pitchingPoint: reconstruction.pitchingPoint,
+        reachesStumps: reconstruction.reachesStumps,
+        stumpsLine: reconstruction.stumpsLine,
+        stumpsHeight: reconstruction.stumpsHeight
+      },
+      {
+        batterHand,
+        onField,
+        shotOffered,
+        // Where the ball is at the impact frame, which can be moved by hand on the timeline.
+        impactDistance: result.summary.predictedImpactMeters
+      }
+    );
+  }, [result, reconstruction, batterHand, onField, shotOffered]);
+
+  const rows: { label: string; value: RowVerdict | null }[] = [
+    { label: "Pitching", value: decision ? decision.pitching ?? "full-toss" : null },
+    { label: "Impact", value: decision?.impact ?? null },
+    { label: "Wickets", value: decision?.wickets ?? null }
+  ];
+
+  return (
+    <div className="panel">
+      <h3>DRS Review</h3>
+      <p>
+        LBW evaluation from the reconstructed trajectory using standard stump dimensions and
+        umpire&apos;s-call margins. Impact is taken where the ball is at the impact frame; move
+        the impact handle on the timeline to where it meets the pad.
+      </p>
+
+      <div className="chip-row">
+        <select
+          className="chip"
+          value={batterHand}
+          onChange={(evt) => setBatterHand(evt.target.value as BatterHand)}
+        >
+          <option value="right">Right-handed batter</option>
+          <option value="left">Left-handed batter</option>
+        </select>
+        <select
+          className="chip"
+          value={onField}
+          onChange={(evt) => setOnField(evt.target.value as OnFieldDecision)}
+        >
+          <option value="not-out">On-field: Not Out</option>
+          <option value="out">On-field: Out</option>
+        </select>
+        <label className="chip">
+          <input
+            type="checkbox"
+            checked={shotOffered}
+            onChange={(evt) => setShotOffered(evt.target.checked)}
+          />{" "}
+          Shot offered
+        </label>
+      </div>
+
+      <div className="drs-table">
+        {rows.map((row) => (
+          <div key={row.label} className="drs-row">
+            <span>{row.label}</span>
+            <strong className={`drs-verdict ${verdictTone(row.value)}`}>
+              {row.value ? VERDICT_LABELS[row.value] : "--"}
+            </strong>
+          </div>
+        ))}
+      </div>
+
+      {decision ? (
+        <div className="drs-row decision">
+          <span>{decision.reason}</span>
+          <strong className={`drs-verdict ${decision.decision === "out" ? "bad" : "good"}`}>
+            {decision.decision === "out" ? "OUT" : "NOT OUT"}
+            {decision.overturned ? " (Overturned)" : ""}
+          </strong>
+        </div>
+      ) : (
+        <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+          {!result
+            ? "Upload a clip to run an LBW review."
+            : uncalibrated
+              ? "LBW review needs a calibrated camera: without one the line and depth of the " +
+                "ball are assumed, so no verdict is given. Calibrate the clip to review it."
+              : "Ball tracking could not reconstruct this delivery, so no review is available."}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default DrsPanel;
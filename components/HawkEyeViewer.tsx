@@ -1,41 +1,82 @@
 "use client";
 
-import { Suspense, useMemo } from "react";
-import { Canvas } from "@react-three/fiber";
-import { OrbitControls, PerspectiveCamera } from "@react-three/drei";
+import { MutableRefObject, Suspense, useEffect, useMemo, useRef } from "react";
+import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { Line, OrbitControls, PerspectiveCamera } from "@react-three/drei";
 import * as THREE from "three";
+import { POPPING_CREASE_METERS } from "../lib/lbw";
+import { movementGuides } from "../lib/movement";
+import { PITCH_LENGTH_METERS } from "../lib/trajectory";
+import type { CameraPreset } from "./ReplayControls";
 import type { AnalysisResult } from "./VideoAnalyzer";
 
+export interface ViewerTrack {
+  id: string;
+  label: string;
+  color: string;
+  delivery: AnalysisResult;
+}
+
 interface HawkEyeViewerProps {
-  delivery: AnalysisResult | null;
+  // The first track is the primary delivery; keyFrameIndex indexes its frames.
+  tracks: ViewerTrack[];
   keyFrameIndex: number;
+  showCameraRays?: boolean;
+  playing?: boolean;
+  playbackRate?: number;
+  cameraPreset?: CameraPreset;
+  onFrameChange?: (frameIndex: number) => void;
+  onReplayEnd?: () => void;
 }
 
+type SceneView = { position: THREE.Vector3; target: THREE.Vector3; up: THREE.Vector3 };
+
+const RAY_COLORS = ["#7dffb3", "#6fb8ff", "#ffcf64", "#ff8ad8"];
+
+// The pitch runs from the bowler's stumps at the origin down the -z axis, like the ball.
 const Pitch = () => (
-  <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
-    <planeGeometry args={[20.12, 3.05]} />
+  <mesh
+    rotation={[-Math.PI / 2, 0, 0]}
+    position={[0, 0, -PITCH_LENGTH_METERS / 2]}
+    receiveShadow
+  >
+    <planeGeometry args={[3.05, PITCH_LENGTH_METERS]} />
     <meshStandardMaterial color="#1f3d7a" />
   </mesh>
 );
 
-const Crease = () => (
-  <group position={[0, 0.01, 0]}>
+// The bowler's popping crease, green or red once the front foot has been judged.
+const PoppingCrease = ({ legal }: { legal: boolean | null }) => (
+  <mesh position={[0, 0.012, -POPPING_CREASE_METERS]} rotation={[-Math.PI / 2, 0, 0]}>
+    <planeGeometry args={[3.66, 0.05]} />
+    <meshBasicMaterial color={legal == null ? "#f7f9ff" : legal ? "#7dffb3" : "#ff6b6b"} />
+  </mesh>
+);
+
+const Crease = ({ depth }: { depth: number }) => (
+  <group position={[0, 0.01, -depth]}>
     <mesh rotation={[-Math.PI / 2, 0, 0]}>
-      <planeGeometry args={[0.02, 3.05]} />
+      <planeGeometry args={[3.05, 0.02]} />
       <meshBasicMaterial color="#f7f9ff" />
     </mesh>
-    <mesh position={[0.05, 0.2, 0.05]}>
+    <mesh position={[0.05, 0.2, 0]}>
       <boxGeometry args={[0.02, 0.4, 0.02]} />
       <meshStandardMaterial color="#dfe5ff" />
     </mesh>
-    <mesh position={[-0.05, 0.2, 0.05]}>
+    <mesh position={[-0.05, 0.2, 0]}>
       <boxGeometry args={[0.02, 0.4, 0.02]} />
       <meshStandardMaterial color="#dfe5ff" />
     </mesh>
   </group>
 );
 
-const Trajectory = ({ points }: { points: [number, number, number][] }) => {
+const Trajectory = ({
+  points,
+  color
+}: {
+  points: [number, number, number][];
+  color: string;
+}) => {
   const curve = useMemo(() => {
     if (!points.length) return null;
     const curvePoints = points.map((pt) => [pt[0], pt[1] + 0.09, -pt[2]] as [
@@ -59,23 +100,25 @@ const Trajectory = ({ points }: { points: [number, number, number][] }) => {
           false
         ]}
       />
-      <meshStandardMaterial color="#ff8d5c" emissive="#ff5400" emissiveIntensity={0.4} />
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.4} />
     </mesh>
   );
 };
 
 const BallMarker = ({
   point,
-  active
+  active,
+  color = "#ff6f61"
 }: {
   point: [number, number, number];
   active: boolean;
+  color?: string;
 }) => (
   <mesh position={[point[0], point[1] + 0.09, -point[2]]}>
     <sphereGeometry args={[0.14, 32, 32]} />
     <meshStandardMaterial
-      color={active ? "#ffcf64" : "#ff6f61"}
-      emissive={active ? "#ffcf64" : "#441711"}
+      color={active ? "#ffcf64" : color}
+      emissive={active ? "#ffcf64" : color}
       emissiveIntensity={active ? 1.2 : 0.2}
       metalness={0.45}
       roughness={0.3}
@@ -102,6 +145,293 @@ const FrameAnnotator = ({
   );
 };
 
+const timeSinceRelease = (delivery: AnalysisResult, frameIndex: number) => {
+  const frames = delivery.frames;
+  const release = frames[delivery.keyMoments.releaseFrame] ?? frames[0];
+  return (frames[frameIndex] ?? frames[0]).time - release.time;
+};
+
+const releaseTime = (delivery: AnalysisResult) =>
+  (delivery.frames[delivery.keyMoments.releaseFrame] ?? delivery.frames[0]).time;
+
+const ballAtTime = (delivery: AnalysisResult, time: number): [number, number, number] => {
+  const frames = delivery.frames;
+  const next = frames.findIndex((frame) => frame.time >= time);
+  if (next <= 0) return frames[next === 0 ? 0 : frames.length - 1].ballPosition;
+  const prev = frames[next - 1];
+  const curr = frames[next];
+  const ratio = (time - prev.time) / (curr.time - prev.time || 1);
+  return prev.ballPosition.map(
+    (value, axis) => value + (curr.ballPosition[axis] - value) * ratio
+  ) as [number, number, number];
+};
+
+const ballAtTimeSinceRelease = (delivery: AnalysisResult, elapsed: number) =>
+  ballAtTime(delivery, releaseTime(delivery) + elapsed);
+
+const nearestFrame = (delivery: AnalysisResult, time: number) =>
+  delivery.frames.reduce(
+    (closest, frame, idx) =>
+      Math.abs(frame.time - time) < Math.abs(delivery.frames[closest].time - time)
+        ? idx
+        : closest,
+    0
+  );
+
+// Comparison balls follow the primary's clock, counted from each delivery's own release.
+const ComparisonMarkers = ({
+  tracks,
+  elapsed
+}: {
+  tracks: ViewerTrack[];
+  elapsed: number;
+}) => (
+  <group>
+    {tracks.map((track) => (
+      <BallMarker
+        key={track.id}
+        point={ballAtTimeSinceRelease(track.delivery, elapsed)}
+        active={false}
+        color={track.color}
+      />
+    ))}
+  </group>
+);
+
+const toScene = (point: [number, number, number]): [number, number, number] => [
+  point[0],
+  point[1] + 0.09,
+  -point[2]
+];
+
+/**
+ * Flies every track's ball from the primary's current frame (or its release) to its last
+ * frame. Positions are written straight to the meshes; the primary's nearest frame is
+ * reported so the slider and video playhead follow along.
+ */
+const ReplayBalls = ({
+  tracks,
+  startFrame,
+  playbackRate,
+  focusRef,
+  onFrameChange,
+  onEnd
+}: {
+  tracks: ViewerTrack[];
+  startFrame: number;
+  playbackRate: number;
+  focusRef: MutableRefObject<THREE.Vector3>;
+  onFrameChange?: (frameIndex: number) => void;
+  onEnd?: () => void;
+}) => {
+  const primary = tracks[0].delivery;
+  const release = releaseTime(primary);
+  const endTime = primary.frames[primary.frames.length - 1].time;
+  const meshes = useRef<(THREE.Mesh | null)[]>([]);
+  const clock = useRef<number | null>(null);
+  const lastFrame = useRef(startFrame);
+  const ended = useRef(false);
+
+  useFrame((_, delta) => {
+    if (clock.current == null) {
+      const start = primary.frames[startFrame]?.time ?? release;
+      clock.current = start >= release && start < endTime ? start : release;
+    }
+    clock.current = Math.min(clock.current + delta * playbackRate, endTime);
+    const elapsed = clock.current - release;
+    tracks.forEach((track, idx) => {
+      const point = toScene(ballAtTimeSinceRelease(track.delivery, elapsed));
+      meshes.current[idx]?.position.set(...point);
+      if (idx === 0) focusRef.current.set(...point);
+    });
+
+    const frameIndex = nearestFrame(primary, clock.current);
+    if (frameIndex !== lastFrame.current) {
+      lastFrame.current = frameIndex;
+      onFrameChange?.(frameIndex);
+    }
+    if (clock.current >= endTime && !ended.current) {
+      ended.current = true;
+      onEnd?.();
+    }
+  });
+
+  return (
+    <group>
+      {tracks.map((track, idx) => (
+        <mesh
+          key={track.id}
+          ref={(mesh) => {
+            meshes.current[idx] = mesh;
+          }}
+        >
+          <sphereGeometry args={[0.14, 32, 32]} />
+          <meshStandardMaterial
+            color={idx === 0 ? "#ffcf64" : track.color}
+            emissive={idx === 0 ? "#ffcf64" : track.color}
+            emissiveIntensity={idx === 0 ? 1.2 : 0.2}
+            metalness={0.45}
+            roughness={0.3}
+          />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+const presetView = (preset: CameraPreset, ball: THREE.Vector3): SceneView | null => {
+  const up = new THREE.Vector3(0, 1, 0);
+  const middle = -PITCH_LENGTH_METERS / 2;
+  switch (preset) {
+    case "behind-bowler":
+      return {
+        position: new THREE.Vector3(0, 2.4, 7),
+        target: new THREE.Vector3(0, 0.6, -PITCH_LENGTH_METERS),
+        up
+      };
+    case "batters-eye":
+      return {
+        position: new THREE.Vector3(0, 1.5, -PITCH_LENGTH_METERS - 2),
+        target: new THREE.Vector3(0, 1.2, 0),
+        up
+      };
+    case "side-on":
+      return {
+        position: new THREE.Vector3(16, 2, middle),
+        target: new THREE.Vector3(0, 0.8, middle),
+        up
+      };
+    case "top-down":
+      return {
+        position: new THREE.Vector3(0, 30, middle),
+        target: new THREE.Vector3(0, 0, middle),
+        up: new THREE.Vector3(0, 0, -1)
+      };
+    case "broadcast":
+      return {
+        position: ball.clone().add(new THREE.Vector3(2.5, 1.8, 5)),
+        target: ball.clone().add(new THREE.Vector3(0, -0.3, -4)),
+        up
+      };
+    default:
+      return null;
+  }
+};
+
+// Eases the camera towards the chosen preset; "free" hands control back to OrbitControls.
+const CameraRig = ({
+  preset,
+  focusRef
+}: {
+  preset: CameraPreset;
+  focusRef: MutableRefObject<THREE.Vector3>;
+}) => {
+  const camera = useThree((state) => state.camera);
+  const target = useRef(new THREE.Vector3(0, 0, -PITCH_LENGTH_METERS / 2));
+
+  useEffect(() => {
+    if (preset === "free") camera.up.set(0, 1, 0);
+  }, [preset, camera]);
+
+  useFrame(() => {
+    const view = presetView(preset, focusRef.current);
+    if (!view) return;
+    camera.position.lerp(view.position, 0.12);
+    camera.up.copy(view.up);
+    target.current.lerp(view.target, 0.12);
+    camera.lookAt(target.current);
+  });
+
+  return null;
+};
+
+// Dashed straight lines showing how far the ball swung before pitching and deviated after.
+const MovementGuides = ({ delivery }: { delivery: AnalysisResult }) => {
+  const guides = useMemo(
+    () =>
+      delivery.reconstruction
+        ? movementGuides(delivery.trajectory, delivery.reconstruction.pitchingPoint)
+        : null,
+    [delivery]
+  );
+  if (!guides) return null;
+  return (
+    <group>
+      {guides.unswung.length > 1 && (
+        <Line
+          points={guides.unswung.map(toScene)}
+          color="#f7f9ff"
+          lineWidth={1.5}
+          dashed
+          dashSize={0.25}
+          gapSize={0.15}
+        />
+      )}
+      {guides.undeviated.length > 1 && (
+        <Line
+          points={guides.undeviated.map(toScene)}
+          color="#ffcf64"
+          lineWidth={1.5}
+          dashed
+          dashSize={0.25}
+          gapSize={0.15}
+        />
+      )}
+    </group>
+  );
+};
+
+const CameraRays = ({
+  delivery,
+  keyFrameIndex
+}: {
+  delivery: AnalysisResult;
+  keyFrameIndex: number;
+}) => {
+  const fusion = delivery.fusion;
+  if (!fusion) return null;
+  const frame = delivery.frames[keyFrameIndex];
+  const rays = fusion.rays[keyFrameIndex] ?? [];
+
+  return (
+    <group>
+      {fusion.cameras.map((camera, idx) => {
+        const color = RAY_COLORS[idx % RAY_COLORS.length];
+        const ray = rays[idx];
+        const reach = frame
+          ? Math.hypot(
+              frame.ballPosition[0] - camera.position[0],
+              frame.ballPosition[1] - camera.position[1],
+              frame.ballPosition[2] - camera.position[2]
+            ) + 1.5
+          : 0;
+        return (
+          <group key={`${camera.label}-${idx}`}>
+            <mesh position={toScene(camera.position)}>
+              <boxGeometry args={[0.4, 0.3, 0.3]} />
+              <meshStandardMaterial color={color} />
+            </mesh>
+            {ray && (
+              <Line
+                points={[
+                  toScene(ray.origin),
+                  toScene([
+                    ray.origin[0] + ray.direction[0] * reach,
+                    ray.origin[1] + ray.direction[1] * reach,
+                    ray.origin[2] + ray.direction[2] * reach
+                  ])
+                ]}
+                color={color}
+                lineWidth={1.5}
+              />
+            )}
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
 const Lights = () => (
   <group>
     <ambientLight intensity={0.45} />
@@ -110,26 +440,76 @@ const Lights = () => (
   </group>
 );
 
-const HawkEyeViewer = ({ delivery, keyFrameIndex }: HawkEyeViewerProps) => {
-  const trajectoryPoints = delivery?.trajectory ?? [];
+const HawkEyeViewer = ({
+  tracks,
+  keyFrameIndex,
+  showCameraRays,
+  playing = false,
+  playbackRate = 1,
+  cameraPreset = "free",
+  onFrameChange,
+  onReplayEnd
+}: HawkEyeViewerProps) => {
+  const [primary, ...others] = tracks;
+  const delivery = primary?.delivery ?? null;
+  const elapsed = delivery ? timeSinceRelease(delivery, keyFrameIndex) : 0;
+  const focusRef = useRef(new THREE.Vector3());
+  const replaying = playing && delivery != null && delivery.frames.length > 1;
+
+  useEffect(() => {
+    if (replaying || !delivery) return;
+    const frame = delivery.frames[keyFrameIndex] ?? delivery.frames[0];
+    focusRef.current.set(...toScene(frame.ballPosition));
+  }, [replaying, delivery, keyFrameIndex]);
 
   return (
-    <Canvas shadows camera={{ position: [6, 6, 10], fov: 42 }}>
+    <Canvas
+      shadows
+      camera={{ position: [6, 6, 10], fov: 42 }}
+      gl={{ preserveDrawingBuffer: true }}
+    >
       <Suspense fallback={null}>
         <PerspectiveCamera makeDefault position={[5, 4, 10]} />
         <OrbitControls
+          enabled={cameraPreset === "free"}
           enablePan
           enableZoom
           minDistance={4}
-          maxDistance={30}
+          maxDistance={showCameraRays ? 60 : 30}
           minPolarAngle={0.3}
           maxPolarAngle={Math.PI / 2.1}
         />
         <Lights />
         <Pitch />
-        <Crease />
-        {trajectoryPoints.length > 1 && <Trajectory points={trajectoryPoints} />}
-        {delivery && <FrameAnnotator delivery={delivery} keyFrameIndex={keyFrameIndex} />}
+        <Crease depth={0} />
+        <Crease depth={PITCH_LENGTH_METERS} />
+        <PoppingCrease legal={tracks[0]?.delivery.frontFoot?.legal ?? null} />
+        <CameraRig preset={cameraPreset} focusRef={focusRef} />
+        {tracks.map(
+          (track) =>
+            track.delivery.trajectory.length > 1 && (
+              <Trajectory key={track.id} points={track.delivery.trajectory} color={track.color} />
+            )
+        )}
+        {delivery && <MovementGuides delivery={delivery} />}
+        {replaying ? (
+          <ReplayBalls
+            tracks={tracks}
+            startFrame={keyFrameIndex}
+            playbackRate={playbackRate}
+            focusRef={focusRef}
+            onFrameChange={onFrameChange}
+            onEnd={onReplayEnd}
+          />
+        ) : (
+          <>
+            {delivery && <FrameAnnotator delivery={delivery} keyFrameIndex={keyFrameIndex} />}
+            {others.length > 0 && <ComparisonMarkers tracks={others} elapsed={elapsed} />}
+          </>
+        )}
+        {delivery && showCameraRays && (
+          <CameraRays delivery={delivery} keyFrameIndex={keyFrameIndex} />
+        )}
       </Suspense>
     </Canvas>
   );
@@ -0,0 +1,97 @@
+"use client";
+
+import { PointerEvent, useRef, useState } from "react";
+import { KEY_MOMENTS, KeyMomentName } from "../lib/corrections";
+import type { FrameSnapshot } from "./VideoAnalyzer";
+
+interface KeyMomentTrackProps {
+  frames: FrameSnapshot[];
+  keyMoments: Record<KeyMomentName, number>;
+  // Moments set by hand, drawn as edited.
+  edited: Partial<Record<KeyMomentName, number>>;
+  currentKeyFrame: number;
+  onSeek: (frameIndex: number) => void;
+  onMove: (name: KeyMomentName, frameIndex: number) => void;
+}
+
+/**
+ * Timeline strip with a handle per key moment. Handles are dragged to a new frame; clicking
+ * the strip itself seeks. Frames sit by time, since sampling is denser around release.
+ */
+const KeyMomentTrack = ({
+  frames,
+  keyMoments,
+  edited,
+  currentKeyFrame,
+  onSeek,
+  onMove
+}: KeyMomentTrackProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<{ name: KeyMomentName; frame: number } | null>(null);
+  if (frames.length < 2) return null;
+
+  const start = frames[0].time;
+  const span = frames[frames.length - 1].time - start || 1;
+  const left = (frameIndex: number) =>
+    `${(((frames[frameIndex]?.time ?? start) - start) / span) * 100}%`;
+
+  const frameAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    const time = start + ((clientX - rect.left) / rect.width) * span;
+    return frames.reduce(
+      (closest, frame, idx) =>
+        Math.abs(frame.time - time) < Math.abs(frames[closest].time - time) ? idx : closest,
+      0
+    );
+  };
+
+  const handleMove = (evt: PointerEvent<HTMLButtonElement>) => {
+    if (!dragging) return;
+    setDragging({ ...dragging, frame: frameAt(evt.clientX) });
+  };
+
+  const handleDrop = () => {
+    if (!dragging) return;
+    onMove(dragging.name, dragging.frame);
+    onSeek(dragging.frame);
+    setDragging(null);
+  };
+
+  return (
+    <div
+      ref={trackRef}
+      className="key-moment-track"
+      onClick={(evt) => {
+        if (evt.target === evt.currentTarget) onSeek(frameAt(evt.clientX));
+      }}
+    >
+      <span className="key-moment-cursor" style={{ left: left(currentKeyFrame) }} />
+      {KEY_MOMENTS.map(({ name, label }) => {
+        const frameIndex = dragging?.name === name ? dragging.frame : keyMoments[name];
+        const isEdited = edited[name] != null;
+        return (
+          <button
+            key={name}
+            type="button"
+            className={`key-moment-handle${isEdited ? " edited" : ""}`}
+            style={{ left: left(frameIndex) }}
+            title={`${label} • frame ${frameIndex + 1}${isEdited ? " (edited)" : ""}`}
+            onPointerDown={(evt) => {
+              evt.currentTarget.setPointerCapture(evt.pointerId);
+              setDragging({ name, frame: keyMoments[name] });
+            }}
+            onPointerMove={handleMove}
+            onPointerUp={handleDrop}
+            onPointerCancel={() => setDragging(null)}
+          >
+            {label}
+            {isEdited ? " ✎" : ""}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default KeyMomentTrack;
@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  EMPTY_LIBRARY_FILTERS,
+  LibraryFilters,
+  LibrarySummary,
+  deleteFromLibrary,
+  filterLibrary,
+  listLibrary,
+  loadFromLibrary,
+  saveToLibrary,
+  storageEstimate
+} from "../lib/library";
+import { LENGTH_ZONES, LengthZone } from "../lib/pitchMap";
+import type { Delivery } from "../lib/session";
+
+interface LibraryPanelProps {
+  current: Delivery | null;
+  onOpen: (delivery: Delivery) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const power = Math.min(
+    units.length - 1,
+    Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024))
+  );
+  return `${(bytes / 1024 ** power).toFixed(power ? 1 : 0)} ${units[power]}`;
+};
+
+const parsePace = (value: string) => (value === "" ? null : Number(value));
+
+const LibraryPanel = ({ current, onOpen }: LibraryPanelProps) => {
+  const [entries, setEntries] = useState<LibrarySummary[]>([]);
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [listed, estimate] = await Promise.all([listLibrary(), storageEstimate()]);
+      setEntries(listed);
+      setUsage(estimate);
+    } catch (err) {
+      console.error(err);
+      setMessage((err as Error).message || "The library could not be opened.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const thumbnails = useMemo(
+    () =>
+      new Map(
+        entries.flatMap((entry) =>
+          entry.thumbnail ? [[entry.id, URL.createObjectURL(entry.thumbnail)] as const] : []
+        )
+      ),
+    [entries]
+  );
+  useEffect(
+    () => () => thumbnails.forEach((url) => URL.revokeObjectURL(url)),
+    [thumbnails]
+  );
+
+  const bowlers = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.bowler).filter(Boolean))).sort(),
+    [entries]
+  );
+  const visible = useMemo(() => filterLibrary(entries, filters), [entries, filters]);
+  const updateFilters = (changes: Partial<LibraryFilters>) =>
+    setFilters((prev) => ({ ...prev, ...changes }));
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setMessage(
+        (err as Error).name === "QuotaExceededError"
+          ? "Storage is full. Delete some deliveries and try again."
+          : failure
+      );
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="library">
+      <div className="chip-row">
+        <button
+          type="button"
+          className="chip"
+          disabled={!current}
+          onClick={() =>
+            current &&
+            run(async () => {
+              await saveToLibrary(current);
+              setMessage(
+                current.angles ? "Saved to the library." : "Saved without video (imported file)."
+              );
+            }, "The delivery could not be saved.")
+          }
+        >
+          Save Current Delivery
+        </button>
+        <span className="chip">
+          {usage
+            ? `${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used`
+            : "Storage usage unavailable"}
+        </span>
+        <span className="chip">{entries.length} stored</span>
+      </div>
+
+      <div className="chip-row">
+        <input
+          className="chip"
+          placeholder="Search clips, bowlers, notes"
+          value={filters.query}
+          onChange={(evt) => updateFilters({ query: evt.target.value })}
+        />
+        <select
+          className="chip"
+          value={filters.bowler}
+          onChange={(evt) => updateFilters({ bowler: evt.target.value })}
+          aria-label="Bowler"
+        >
+          <option value="">All bowlers</option>
+          {bowlers.map((bowler) => (
+            <option key={bowler} value={bowler}>
+              {bowler}
+            </option>
+          ))}
+        </select>
+        <select
+          className="chip"
+          value={filters.length}
+          onChange={(evt) => updateFilters({ length: evt.target.value as LengthZone | "" })}
+          aria-label="Length"
+        >
+          <option value="">Any length</option>
+          {LENGTH_ZONES.map((entry) => (
+            <option key={entry.zone} value={entry.zone}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <label className="chip">
+          From{" "}
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(evt) => updateFilters({ from: evt.target.value })}
+          />
+        </label>
+        <label className="chip">
+          To{" "}
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(evt) => updateFilters({ to: evt.target.value })}
+          />
+        </label>
+        <label className="chip">
+          Min km/h{" "}
+          <input
+            type="number"
+            value={filters.minPace ?? ""}
+            onChange={(evt) => updateFilters({ minPace: parsePace(evt.target.value) })}
+          />
+        </label>
+        <label className="chip">
+          Max km/h{" "}
+          <input
+            type="number"
+            value={filters.maxPace ?? ""}
+            onChange={(evt) => updateFilters({ maxPace: parsePace(evt.target.value) })}
+          />
+        </label>
+      </div>
+
+      {message && <span style={{ color: "#8f9bdb" }}>{message}</span>}
+
+      {visible.length === 0 ? (
+        <p>
+          {entries.length
+            ? "No stored deliveries match these filters."
+            : "Saved deliveries stay on this device, with their clips, for later review."}
+        </p>
+      ) : (
+        <ul className="library-list">
+          {visible.map((entry) => (
+            <li key={entry.id}>
+              {thumbnails.has(entry.id) ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={thumbnails.get(entry.id)} alt="" />
+              ) : (
+                <div className="library-thumb-empty">No video</div>
+              )}
+              <div>
+                <strong>{entry.clipName}</strong>
+                <span>
+                  {entry.bowler || "Unknown bowler"} •{" "}
+                  {new Date(entry.recordedAt).toLocaleDateString()} •{" "}
+                  {entry.releaseSpeedKph == null
+                    ? "--"
+                    : `${Math.round(entry.releaseSpeedKph)} km/h`}
+                  {entry.lengthZone
+                    ? ` • ${LENGTH_ZONES.find((zone) => zone.zone === entry.lengthZone)?.label}`
+                    : ""}
+                </span>
+              </div>
+              <div className="chip-row">
+                <button
+                  type="button"
+                  className="chip"
+                  onClick={() =>
+                    run(async () => {
+                      const delivery = await loadFromLibrary(entry.id);
+                      if (!delivery) throw new Error("Missing delivery");
+                      onOpen(delivery);
+                    }, "The delivery could not be opened.")
+                  }
+                >
+                  Open
+                </button>
+                <button
+                  type="button"
+                  className="chip"
+                  onClick={() =>
+                    run(() => deleteFromLibrary(entry.id), "The delivery could not be deleted.")
+                  }
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPanel;
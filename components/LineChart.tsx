@@ -0,0 +1,111 @@
+"use client";
+
+export interface ChartSample {
+  frameIndex: number;
+  time: number;
+  value: number;
+}
+
+interface LineChartProps {
+  samples: ChartSample[];
+  label: string;
+  unit: string;
+  startLabel?: string;
+  endLabel?: string;
+  // The value axis always reaches at least this high.
+  minTop?: number;
+  // Vertical rules at notable times, e.g. foot contacts.
+  markers?: { time: number; label: string }[];
+  // Time axis labels; seconds by default.
+  formatTime?: (time: number) => string;
+  currentKeyFrame: number;
+  onSeek: (frameIndex: number) => void;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 24;
+
+/** Small time-series chart; clicking a point seeks to its frame. */
+const LineChart = ({
+  samples,
+  label,
+  unit,
+  startLabel,
+  endLabel,
+  minTop = 1,
+  markers = [],
+  formatTime,
+  currentKeyFrame,
+  onSeek
+}: LineChartProps) => {
+  if (samples.length < 2) return null;
+  const start = samples[0].time;
+  const span = samples[samples.length - 1].time - start || 1;
+  const top = Math.max(...samples.map((sample) => sample.value), minTop);
+  const x = (time: number) =>
+    CHART_PADDING + ((time - start) / span) * (CHART_WIDTH - CHART_PADDING * 2);
+  const timeLabel = (time: number, digits: number) =>
+    formatTime ? formatTime(time) : `${time.toFixed(digits)} s`;
+  const y = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING - (value / top) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg
+      className="line-chart"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label={label}
+    >
+      <text x={4} y={CHART_PADDING - 8}>
+        {Math.round(top)}
+        {unit}
+      </text>
+      <text x={4} y={CHART_HEIGHT - CHART_PADDING}>
+        0{unit}
+      </text>
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 6}>
+        {startLabel ?? timeLabel(start, 2)}
+      </text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 6} textAnchor="end">
+        {endLabel ?? timeLabel(start + span, 2)}
+      </text>
+      {markers
+        .filter((marker) => marker.time >= start && marker.time <= start + span)
+        .map((marker) => (
+          <line
+            key={`${marker.label}-${marker.time}`}
+            className="line-chart-marker"
+            x1={x(marker.time)}
+            x2={x(marker.time)}
+            y1={CHART_PADDING}
+            y2={CHART_HEIGHT - CHART_PADDING}
+          >
+            <title>{marker.label}</title>
+          </line>
+        ))}
+      <path
+        d={samples
+          .map((sample, idx) => `${idx ? "L" : "M"}${x(sample.time)},${y(sample.value)}`)
+          .join(" ")}
+      />
+      {samples.map((sample) => (
+        <circle
+          key={sample.frameIndex}
+          className={sample.frameIndex === currentKeyFrame ? "active" : undefined}
+          cx={x(sample.time)}
+          cy={y(sample.value)}
+          r={sample.frameIndex === currentKeyFrame ? 5 : 3}
+          onClick={() => onSeek(sample.frameIndex)}
+        >
+          <title>
+            {timeLabel(sample.time, 3)} • {sample.value.toFixed(1)}
+            {unit}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default LineChart;
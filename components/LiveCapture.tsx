@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  LiveFeed,
+  LiveSource,
+  RollingRecorder,
+  createRollingRecorder,
+  isDeliveryPose,
+  openLiveSource
+} from "../lib/liveCapture";
+import type { PoseSampler } from "../lib/poseSampling";
+
+interface LiveCaptureProps {
+  getSampler: () => PoseSampler;
+  // True while a clip is being analysed; captured deliveries wait until it finishes.
+  busy: boolean;
+  onDelivery: (file: File) => void;
+}
+
+type LivePhase = "off" | "starting" | "watching" | "recording";
+
+// Poses are checked a few times a second on a downscaled frame.
+const DETECT_INTERVAL_MS = 150;
+const DETECT_WIDTH = 640;
+// Follow-through and the ball's flight after the arm comes over.
+const POST_ROLL_SECONDS = 2.5;
+// One delivery cannot trigger twice.
+const COOLDOWN_MS = 6000;
+const FAKE_VIDEO = "fake-video";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const all = await navigator.mediaDevices.enumerateDevices().catch(() => []);
+  return all.filter((device) => device.kind === "videoinput");
+};
+
+/**
+ * Watches a camera for the top of the bowling action and hands each delivery on as a clip
+ * cut from a rolling recording, so a net session is analysed ball by ball hands-free.
+ */
+const LiveCapture = ({ getSampler, busy, onDelivery }: LiveCaptureProps) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [choice, setChoice] = useState("");
+  const [fakeVideo, setFakeVideo] = useState<File | null>(null);
+  const [phase, setPhase] = useState<LivePhase>("off");
+  const [captured, setCaptured] = useState(0);
+  const [queue, setQueue] = useState<File[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const feedRef = useRef<LiveFeed | null>(null);
+  const recorderRef = useRef<RollingRecorder | null>(null);
+
+  useEffect(() => {
+    listCameras().then(setDevices);
+  }, []);
+
+  const release = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    feedRef.current?.stop();
+    feedRef.current = null;
+  };
+
+  useEffect(() => release, []);
+
+  const stop = () => {
+    release();
+    if (previewRef.current) previewRef.current.srcObject = null;
+    setPhase("off");
+  };
+
+  const start = async () => {
+    const source: LiveSource =
+      choice === FAKE_VIDEO
+        ? { kind: "fake-video", file: fakeVideo as File }
+        : { kind: "camera", deviceId: choice || null };
+    setError(null);
+    setPhase("starting");
+    try {
+      const feed = await openLiveSource(source);
+      feedRef.current = feed;
+      recorderRef.current = createRollingRecorder(feed.stream);
+      if (previewRef.current) {
+        previewRef.current.srcObject = feed.stream;
+        await previewRef.current.play().catch(() => undefined);
+      }
+      setCaptured(0);
+      setPhase("watching");
+      // Camera names are only listed once access has been granted.
+      listCameras().then(setDevices);
+    } catch (err) {
+      console.error(err);
+      stop();
+      setError(err instanceof Error ? err.message : "The live source could not be opened.");
+    }
+  };
+
+  const live = phase === "watching" || phase === "recording";
+
+  // Detection keeps running while earlier deliveries are analysed; its frames queue in the
+  // same pose worker.
+  useEffect(() => {
+    if (!live) return;
+    let cancelled = false;
+    let cooldownUntil = 0;
+    const sampler = getSampler();
+    const runId = sampler.startRun();
+
+    const watch = async () => {
+      await sampler.load();
+      while (!cancelled) {
+        await wait(DETECT_INTERVAL_MS);
+        const video = previewRef.current;
+        if (!video || video.readyState < 2 || Date.now() < cooldownUntil) continue;
+        const scale = DETECT_WIDTH / (video.videoWidth || DETECT_WIDTH);
+        const bitmap = await createImageBitmap(video, {
+          resizeWidth: DETECT_WIDTH,
+          resizeHeight: Math.round((video.videoHeight || 360) * scale)
+        });
+        const sample = await sampler.process(runId, bitmap, video.currentTime).catch(() => null);
+        if (cancelled || !sample || !sample.people.some(isDeliveryPose)) continue;
+
+        const recorder = recorderRef.current;
+        if (!recorder) continue;
+        cooldownUntil = Date.now() + COOLDOWN_MS;
+        setPhase("recording");
+        recorder.cut(POST_ROLL_SECONDS).then((blob) => {
+          if (cancelled) return;
+          setPhase("watching");
+          if (!blob) return;
+          const stamp = new Date();
+          const name = `Live delivery ${stamp.toLocaleTimeString()}.webm`;
+          setCaptured((count) => count + 1);
+          setQueue((prev) => [
+            ...prev,
+            new File([blob], name, { type: blob.type, lastModified: stamp.getTime() })
+          ]);
+        });
+      }
+    };
+    watch().catch((err) => {
+      if (cancelled) return;
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Live detection stopped.");
+    });
+
+    return () => {
+      cancelled = true;
+      sampler.cancel(runId);
+    };
+  }, [live, getSampler]);
+
+  // Hand deliveries over one at a time, so a new one never cancels an analysis in progress.
+  useEffect(() => {
+    if (busy || !queue.length) return;
+    const [next, ...rest] = queue;
+    setQueue(rest);
+    onDelivery(next);
+  }, [busy, queue, onDelivery]);
+
+  return (
+    <div className="live-capture">
+      <div className="chip-row">
+        <select
+          className="chip"
+          value={choice}
+          disabled={phase !== "off"}
+          onChange={(evt) => setChoice(evt.target.value)}
+        >
+          <option value="">Default camera</option>
+          {devices.map((device, idx) => (
+            <option key={device.deviceId || idx} value={device.deviceId}>
+              {device.label || `Camera ${idx + 1}`}
+            </option>
+          ))}
+          <option value={FAKE_VIDEO}>Test video (loops a clip)</option>
+        </select>
+        {choice === FAKE_VIDEO && phase === "off" && (
+          <>
+            <label htmlFor="live-fake-video" className="chip">
+              {fakeVideo ? fakeVideo.name : "Choose test clip"}
+            </label>
+            <input
+              id="live-fake-video"
+              type="file"
+              accept="video/mp4,video/quicktime,video/webm"
+              style={{ display: "none" }}
+              onChange={(event) => {
+                setFakeVideo(event.target.files?.[0] ?? null);
+                event.target.value = "";
+              }}
+            />
+          </>
+        )}
+        {phase === "off" ? (
+          <button
+            type="button"
+            className="chip"
+            disabled={choice === FAKE_VIDEO && !fakeVideo}
+            onClick={start}
+          >
+            Start Live Capture
+          </button>
+        ) : (
+          <button type="button" className="chip" onClick={stop}>
+            Stop Live Capture
+          </button>
+        )}
+      </div>
+
+      <video
+        ref={previewRef}
+        muted
+        playsInline
+        style={{ display: live ? "block" : "none" }}
+      />
+
+      {phase !== "off" && (
+        <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+          {phase === "starting"
+            ? "Opening the live source..."
+            : phase === "recording"
+              ? "Delivery detected, recording the follow-through..."
+              : "Watching for the bowling action."}{" "}
+          {captured} captured
+          {queue.length ? `, ${queue.length} waiting for analysis` : ""}.
+        </span>
+      )}
+      {error && <span style={{ color: "#ff8a8a" }}>{error}</span>}
+    </div>
+  );
+};
+
+export default LiveCapture;
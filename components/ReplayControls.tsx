@@ -0,0 +1,75 @@
+"use client";
+
+export type CameraPreset =
+  | "free"
+  | "behind-bowler"
+  | "batters-eye"
+  | "side-on"
+  | "top-down"
+  | "broadcast";
+
+export const CAMERA_PRESETS: { id: CameraPreset; label: string }[] = [
+  { id: "free", label: "Free Orbit" },
+  { id: "behind-bowler", label: "Behind Bowler" },
+  { id: "batters-eye", label: "Batter's Eye" },
+  { id: "side-on", label: "Side-On" },
+  { id: "top-down", label: "Top-Down" },
+  { id: "broadcast", label: "Broadcast Follow" }
+];
+
+const REPLAY_SPEEDS = [1, 0.5, 0.25, 0.1];
+
+interface ReplayControlsProps {
+  playing: boolean;
+  speed: number;
+  preset: CameraPreset;
+  disabled: boolean;
+  onPlayingChange: (value: boolean) => void;
+  onSpeedChange: (value: number) => void;
+  onPresetChange: (value: CameraPreset) => void;
+}
+
+const ReplayControls = ({
+  playing,
+  speed,
+  preset,
+  disabled,
+  onPlayingChange,
+  onSpeedChange,
+  onPresetChange
+}: ReplayControlsProps) => (
+  <div className="chip-row">
+    <button
+      type="button"
+      className={`chip${playing ? " active" : ""}`}
+      disabled={disabled}
+      onClick={() => onPlayingChange(!playing)}
+    >
+      {playing ? "Pause Replay" : "Play Replay"}
+    </button>
+    <select
+      className="chip"
+      value={speed}
+      onChange={(evt) => onSpeedChange(Number(evt.target.value))}
+      aria-label="Replay speed"
+    >
+      {REPLAY_SPEEDS.map((value) => (
+        <option key={value} value={value}>
+          {value === 1 ? "Real time" : `${value}× slow motion`}
+        </option>
+      ))}
+    </select>
+    {CAMERA_PRESETS.map((entry) => (
+      <button
+        key={entry.id}
+        type="button"
+        className={`chip${entry.id === preset ? " active" : ""}`}
+        onClick={() => onPresetChange(entry.id)}
+      >
+        {entry.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ReplayControls;
@@ -0,0 +1,134 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { CameraCalibration } from "../lib/calibration";
+import { baseFileName, downloadBlob } from "../lib/download";
+import { renderAnnotatedReplay } from "../lib/replayExport";
+import type { AnalysisResult } from "./VideoAnalyzer";
+
+interface ReplayExportPanelProps {
+  source: string | null;
+  clipName: string;
+  analysis: AnalysisResult | null;
+  calibration: CameraCalibration | null;
+  pip?: (frameIndex: number) => Promise<CanvasImageSource | null>;
+}
+
+const RESOLUTIONS = [480, 720, 1080];
+const FRAME_RATES = [24, 30, 60];
+
+const ReplayExportPanel = ({
+  source,
+  clipName,
+  analysis,
+  calibration,
+  pip
+}: ReplayExportPanelProps) => {
+  const [height, setHeight] = useState(720);
+  const [fps, setFps] = useState(30);
+  const [includePip, setIncludePip] = useState(Boolean(pip));
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const exportReplay = async () => {
+    if (!source || !analysis) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setMessage(null);
+    try {
+      const blob = await renderAnnotatedReplay({
+        source,
+        analysis,
+        calibration,
+        height,
+        fps,
+        pip: includePip ? pip : undefined,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      downloadBlob(blob, `${baseFileName(clipName)}-drs-replay.webm`);
+      setMessage("Replay exported.");
+    } catch (err) {
+      if ((err as Error).name === "AbortError") {
+        setMessage("Export cancelled.");
+      } else {
+        console.error(err);
+        setMessage((err as Error).message || "Replay export failed.");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exporting = progress != null;
+
+  return (
+    <div className="calibration-bar">
+      <div className="chip-row">
+        <select
+          className="chip"
+          value={height}
+          disabled={exporting}
+          onChange={(evt) => setHeight(Number(evt.target.value))}
+          aria-label="Export resolution"
+        >
+          {RESOLUTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}p
+            </option>
+          ))}
+        </select>
+        <select
+          className="chip"
+          value={fps}
+          disabled={exporting}
+          onChange={(evt) => setFps(Number(evt.target.value))}
+          aria-label="Export frame rate"
+        >
+          {FRAME_RATES.map((value) => (
+            <option key={value} value={value}>
+              {value} fps
+            </option>
+          ))}
+        </select>
+        {pip && (
+          <label className="chip">
+            <input
+              type="checkbox"
+              checked={includePip}
+              disabled={exporting}
+              onChange={(evt) => setIncludePip(evt.target.checked)}
+            />{" "}
+            Hawk-Eye picture-in-picture
+          </label>
+        )}
+        {exporting ? (
+          <button type="button" className="chip" onClick={() => abortRef.current?.abort()}>
+            Cancel Export
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="chip"
+            disabled={!source || !analysis}
+            onClick={exportReplay}
+          >
+            Export DRS Replay
+          </button>
+        )}
+      </div>
+      {exporting && (
+        <div className="timeline">
+          <progress value={progress ?? 0} max={1} />
+          <span className="chip">{Math.round((progress ?? 0) * 100)}%</span>
+        </div>
+      )}
+      {message && <span style={{ color: "#8f9bdb" }}>{message}</span>}
+    </div>
+  );
+};
+
+export default ReplayExportPanel;
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { baseFileName, downloadBlob } from "../lib/download";
+import { framesCsv, renderCoachingReport, summaryCsv } from "../lib/reports";
+import type { Delivery } from "../lib/session";
+
+interface ReportPanelProps {
+  sessionName: string;
+  deliveries: Delivery[];
+  activeDeliveryId: string | null;
+}
+
+type ReportScope = "current" | "session";
+
+/** CSV and PDF coaching reports for the active delivery or the whole session. */
+const ReportPanel = ({ sessionName, deliveries, activeDeliveryId }: ReportPanelProps) => {
+  const [scope, setScope] = useState<ReportScope>("current");
+  const [notes, setNotes] = useState("");
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = deliveries.find((delivery) => delivery.id === activeDeliveryId);
+  const selected = scope === "session" ? deliveries : active ? [active] : [];
+  const fileName = baseFileName(
+    scope === "session" ? sessionName : (active?.clipName ?? sessionName)
+  );
+
+  const downloadCsv = (build: (deliveries: Delivery[]) => string, suffix: string) =>
+    downloadBlob(new Blob([build(selected)], { type: "text/csv" }), `${fileName}-${suffix}.csv`);
+
+  const downloadPdf = async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await renderCoachingReport(selected, {
+        title: scope === "session" ? sessionName : `${active?.clipName} report`,
+        notes,
+        onProgress: setProgress
+      });
+      downloadBlob(blob, `${fileName}-report.pdf`);
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message || "The report could not be generated.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="calibration-bar">
+      <div className="chip-row">
+        <select
+          className="chip"
+          value={scope}
+          onChange={(evt) => setScope(evt.target.value as ReportScope)}
+          aria-label="Report scope"
+        >
+          <option value="current">Current delivery</option>
+          <option value="session">Whole session ({deliveries.length})</option>
+        </select>
+        <button
+          type="button"
+          className="chip"
+          disabled={!selected.length}
+          onClick={() => downloadCsv(framesCsv, "frames")}
+        >
+          Frames CSV
+        </button>
+        <button
+          type="button"
+          className="chip"
+          disabled={!selected.length}
+          onClick={() => downloadCsv(summaryCsv, "summary")}
+        >
+          Summary CSV
+        </button>
+        <button
+          type="button"
+          className="chip"
+          disabled={!selected.length || progress != null}
+          onClick={downloadPdf}
+        >
+          {progress != null ? `Building PDF ${Math.round(progress * 100)}%` : "PDF Report"}
+        </button>
+      </div>
+      <textarea
+        className="report-notes"
+        rows={4}
+        placeholder="Coach notes for the PDF"
+        value={notes}
+        onChange={(evt) => setNotes(evt.target.value)}
+      />
+      <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+        Reports are built on this device. The frames CSV has a row per sampled frame and the
+        summary CSV a row per delivery; values the analysis could not measure are left blank.
+      </span>
+      {error && <span style={{ color: "#ff8a8a" }}>{error}</span>}
+    </div>
+  );
+};
+
+export default ReportPanel;
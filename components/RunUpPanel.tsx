@@ -0,0 +1,144 @@
+"use client";
+
+import { useMemo } from "react";
+import { analyzeRunUp } from "../lib/runUp";
+import LineChart from "./LineChart";
+import type { AnalysisResult } from "./VideoAnalyzer";
+
+interface RunUpPanelProps {
+  result: AnalysisResult | null;
+  currentKeyFrame: number;
+  onSeek: (frameIndex: number) => void;
+}
+
+const formatMeters = (value: number | null) => (value == null ? "—" : `${value.toFixed(2)} m`);
+const formatDegrees = (value: number | null) => (value == null ? "—" : `${value.toFixed(1)}°`);
+
+const RunUpPanel = ({ result, currentKeyFrame, onSeek }: RunUpPanelProps) => {
+  const report = useMemo(
+    () =>
+      result
+        ? analyzeRunUp(
+            result.frames,
+            result.keyMoments.releaseFrame,
+            result.keyMoments.landingFrame ?? null,
+            result.calibration
+          )
+        : null,
+    [result]
+  );
+
+  const markers = useMemo(() => {
+    if (!report || !result) return [];
+    const contactMarkers = report.contacts.map((contact) => ({
+      time: contact.time,
+      label: `${contact.foot === "right" ? "Right" : "Left"} foot plant`
+    }));
+    return report.frontFootFrame != null
+      ? [
+          ...contactMarkers,
+          { time: result.frames[report.frontFootFrame].time, label: "Front-foot contact" }
+        ]
+      : contactMarkers;
+  }, [report, result]);
+
+  const meanStride = report?.strideLengths.length
+    ? report.strideLengths.reduce((acc, value) => acc + value, 0) / report.strideLengths.length
+    : null;
+
+  const contactChip = (label: string, frameIndex: number | null) =>
+    frameIndex != null && result ? (
+      <button type="button" className="chip" onClick={() => onSeek(frameIndex)}>
+        {label} • {result.frames[frameIndex].time.toFixed(2)} s
+      </button>
+    ) : null;
+
+  return (
+    <div className="panel">
+      <h3>Run-Up &amp; Delivery Stride</h3>
+      <p>
+        Stride pattern and approach speed from the hip and ankle keypoints, through to the
+        delivery stride and the body position at release.
+      </p>
+
+      {!result ? (
+        <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+          Upload a clip to analyse the run-up.
+        </span>
+      ) : !report ? (
+        <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+          The bowler is not visible at release.
+        </span>
+      ) : (
+        <>
+          <div className="drs-table">
+            <div className="drs-row">
+              <span>Strides seen</span>
+              <strong>{report.contacts.length}</strong>
+            </div>
+            <div className="drs-row">
+              <span>Mean stride length</span>
+              <strong>{formatMeters(meanStride)}</strong>
+            </div>
+            <div className="drs-row">
+              <span>Approach speed</span>
+              <strong>
+                {report.approachSpeedKph == null
+                  ? "—"
+                  : `${report.approachSpeedKph.toFixed(1)} km/h`}
+              </strong>
+            </div>
+            <div className="drs-row">
+              <span>Delivery stride</span>
+              <strong>{formatMeters(report.deliveryStrideMeters)}</strong>
+            </div>
+            <div className="drs-row">
+              <span>Hip-shoulder separation at release</span>
+              <strong>{formatDegrees(report.hipShoulderSeparation)}</strong>
+            </div>
+            <div className="drs-row">
+              <span>Front knee flexion at release</span>
+              <strong>{formatDegrees(report.frontKneeFlexion)}</strong>
+            </div>
+          </div>
+
+          <div className="chip-row">
+            {contactChip("Back-foot contact", report.backFootFrame)}
+            {contactChip("Front-foot contact", report.frontFootFrame)}
+          </div>
+
+          <LineChart
+            samples={report.approachSpeed}
+            label="Approach speed of the hips up to release"
+            unit=" km/h"
+            endLabel="Release"
+            minTop={10}
+            markers={markers}
+            currentKeyFrame={currentKeyFrame}
+            onSeek={onSeek}
+          />
+          <LineChart
+            samples={report.kneeFlexion}
+            label="Front knee flexion from front-foot contact to release"
+            unit="°"
+            startLabel="Front foot down"
+            endLabel="Release"
+            minTop={30}
+            currentKeyFrame={currentKeyFrame}
+            onSeek={onSeek}
+          />
+        </>
+      )}
+
+      <span className="biomechanics-caveat">
+        {report?.scale === "calibrated"
+          ? "Stride lengths are measured on the calibrated pitch. "
+          : "Without a calibration, distances are scaled from an assumed 0.9 m leg length. "}
+        Speeds and angles come from 2D keypoints in a single view, so movement towards the
+        camera is under-read.
+      </span>
+    </div>
+  );
+};
+
+export default RunUpPanel;
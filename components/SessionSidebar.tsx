@@ -0,0 +1,202 @@
+"use client";
+
+import { useMemo } from "react";
+import type { BowlerProfile } from "../lib/profiles";
+import { Delivery, Session, formatPace, summarizeSpell } from "../lib/session";
+
+interface SessionSidebarProps {
+  session: Session;
+  activeDeliveryId: string | null;
+  profiles: BowlerProfile[];
+  onSelect: (id: string) => void;
+  onRename: (name: string) => void;
+  onUpdate: (
+    id: string,
+    changes: Partial<Pick<Delivery, "bowler" | "profileId" | "notes">>
+  ) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onNewSession: () => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+  importErrors: string[];
+}
+
+const formatRange = (min: number | null, max: number | null, unit: string) =>
+  min == null || max == null ? "--" : `${Math.round(min)}–${Math.round(max)} ${unit}`;
+
+const SessionSidebar = ({
+  session,
+  activeDeliveryId,
+  profiles,
+  onSelect,
+  onRename,
+  onUpdate,
+  onRemove,
+  onMove,
+  onNewSession,
+  onExport,
+  onImport,
+  importErrors
+}: SessionSidebarProps) => {
+  const summary = useMemo(() => summarizeSpell(session.deliveries), [session.deliveries]);
+  const active = session.deliveries.find((delivery) => delivery.id === activeDeliveryId);
+
+  return (
+    <aside className="panel session-sidebar">
+      <h3>Session</h3>
+      <input
+        className="session-name"
+        value={session.name}
+        onChange={(evt) => onRename(evt.target.value)}
+        aria-label="Session name"
+      />
+
+      <div className="telemetry compact">
+        <div className="telemetry-card">
+          <strong>{summary.deliveries}</strong>
+          <span>Deliveries</span>
+        </div>
+        <div className="telemetry-card">
+          <strong>{formatRange(summary.paceMinKph, summary.paceMaxKph, "km/h")}</strong>
+          <span>Pace Range</span>
+        </div>
+        <div className="telemetry-card">
+          <strong>
+            {summary.averageReleaseHeight == null
+              ? "--"
+              : `${summary.averageReleaseHeight.toFixed(2)} m`}
+          </strong>
+          <span>Avg Release Height</span>
+        </div>
+        <div className="telemetry-card">
+          <strong>
+            {summary.seamAngleSpread == null ? "--" : `±${summary.seamAngleSpread.toFixed(1)}°`}
+          </strong>
+          <span>Seam Angle Spread</span>
+        </div>
+      </div>
+
+      {session.deliveries.length === 0 ? (
+        <p>Each analysed clip is added here as the next ball of the spell.</p>
+      ) : (
+        <ol className="delivery-list">
+          {session.deliveries.map((delivery, idx) => (
+            <li
+              key={delivery.id}
+              className={delivery.id === activeDeliveryId ? "active" : undefined}
+            >
+              <button type="button" onClick={() => onSelect(delivery.id)}>
+                <strong>
+                  Ball {idx + 1}
+                  {delivery.bowler ? ` • ${delivery.bowler}` : ""}
+                </strong>
+                <span>
+                  {formatPace(delivery)} • {delivery.clipName}
+                </span>
+              </button>
+              <div className="chip-row">
+                <button
+                  type="button"
+                  className="chip"
+                  disabled={idx === 0}
+                  onClick={() => onMove(delivery.id, -1)}
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  className="chip"
+                  disabled={idx === session.deliveries.length - 1}
+                  onClick={() => onMove(delivery.id, 1)}
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button type="button" className="chip" onClick={() => onRemove(delivery.id)}>
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {active && (
+        <div className="delivery-editor">
+          <label>
+            Profile
+            <select
+              value={active.profileId ?? ""}
+              onChange={(evt) => {
+                const profile = profiles.find((entry) => entry.id === evt.target.value);
+                // Picking a profile also names the bowler, so library filters keep working.
+                onUpdate(
+                  active.id,
+                  profile ? { profileId: profile.id, bowler: profile.name } : { profileId: null }
+                );
+              }}
+            >
+              <option value="">No profile</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name || "Unnamed bowler"}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Bowler
+            <input
+              value={active.bowler}
+              onChange={(evt) => onUpdate(active.id, { bowler: evt.target.value })}
+            />
+          </label>
+          <label>
+            Notes
+            <textarea
+              rows={3}
+              value={active.notes}
+              onChange={(evt) => onUpdate(active.id, { notes: evt.target.value })}
+            />
+          </label>
+          <button type="button" className="chip" onClick={() => onExport(active.id)}>
+            Export JSON
+          </button>
+        </div>
+      )}
+
+      <div className="chip-row">
+        <label htmlFor="analysis-import" className="chip">
+          Import JSON
+        </label>
+        <input
+          id="analysis-import"
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              onImport(file);
+            }
+            event.target.value = "";
+          }}
+        />
+        <button type="button" className="chip" onClick={onNewSession}>
+          New Session
+        </button>
+      </div>
+      {importErrors.length > 0 && (
+        <ul className="import-errors">
+          {importErrors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,198 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { POPPING_CREASE_METERS, STUMPS_HEIGHT_METERS, STUMPS_WIDTH_METERS } from "../lib/lbw";
+import { DeliveryMark, LENGTH_ZONES, LengthZone, deliveryMarks } from "../lib/pitchMap";
+import type { Delivery } from "../lib/session";
+
+interface SpellViewsProps {
+  deliveries: Delivery[];
+  activeDeliveryId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const ZONE_COLORS: Record<LengthZone, string> = {
+  yorker: "#ff6b6b",
+  full: "#ffd166",
+  good: "#4ade80",
+  short: "#60a5fa"
+};
+const FULL_TOSS_COLOR = "#f4f6ff";
+
+// Both views look down the pitch from the bowler's end, so +x (bowler's left) is drawn left.
+const PITCH_SCALE = 25;
+const PITCH_HALF_WIDTH = 1.8;
+const PITCH_SHOWN_LENGTH = 12;
+const PITCH_MARGIN = 10;
+const BEEHIVE_SCALE = 100;
+const BEEHIVE_HALF_WIDTH = 1.2;
+const BEEHIVE_HEIGHT = 1.6;
+
+const markColor = (mark: DeliveryMark) => (mark.zone ? ZONE_COLORS[mark.zone] : FULL_TOSS_COLOR);
+
+const markTitle = (mark: DeliveryMark) =>
+  `Ball ${mark.ball} • ${mark.speedKph == null ? "--" : `${Math.round(mark.speedKph)} km/h`}` +
+  (mark.pitching ? ` • pitched ${mark.pitching.length.toFixed(1)} m` : " • full toss");
+
+const SpellViews = ({ deliveries, activeDeliveryId, onSelect }: SpellViewsProps) => {
+  const [over, setOver] = useState<number | null>(null);
+  const [minSpeed, setMinSpeed] = useState<number | null>(null);
+  const [maxSpeed, setMaxSpeed] = useState<number | null>(null);
+
+  const marks = useMemo(() => deliveryMarks(deliveries), [deliveries]);
+  const overs = useMemo(() => Array.from(new Set(marks.map((mark) => mark.over))), [marks]);
+  const visible = marks.filter(
+    (mark) =>
+      (over == null || mark.over === over) &&
+      (minSpeed == null || (mark.speedKph != null && mark.speedKph >= minSpeed)) &&
+      (maxSpeed == null || (mark.speedKph != null && mark.speedKph <= maxSpeed))
+  );
+
+  const pitchWidth = PITCH_HALF_WIDTH * 2 * PITCH_SCALE;
+  const pitchHeight = PITCH_SHOWN_LENGTH * PITCH_SCALE + PITCH_MARGIN;
+  const pitchX = (line: number) => pitchWidth / 2 - line * PITCH_SCALE;
+  const pitchY = (length: number) => PITCH_MARGIN + length * PITCH_SCALE;
+
+  const hiveWidth = BEEHIVE_HALF_WIDTH * 2 * BEEHIVE_SCALE;
+  const hiveHeight = BEEHIVE_HEIGHT * BEEHIVE_SCALE;
+  const hiveX = (line: number) => hiveWidth / 2 - line * BEEHIVE_SCALE;
+  const hiveY = (height: number) => hiveHeight - height * BEEHIVE_SCALE;
+
+  const dot = (mark: DeliveryMark, cx: number, cy: number, radius: number) => (
+    <circle
+      key={mark.id}
+      className={`spell-dot${mark.id === activeDeliveryId ? " active" : ""}`}
+      cx={cx}
+      cy={cy}
+      r={radius}
+      fill={markColor(mark)}
+      onClick={() => onSelect(mark.id)}
+    >
+      <title>{markTitle(mark)}</title>
+    </circle>
+  );
+
+  const parseSpeed = (value: string) => (value === "" ? null : Number(value));
+
+  return (
+    <div className="spell-views">
+      <div className="chip-row">
+        <select
+          className="chip"
+          value={over ?? ""}
+          onChange={(evt) => setOver(evt.target.value === "" ? null : Number(evt.target.value))}
+        >
+          <option value="">All overs</option>
+          {overs.map((value) => (
+            <option key={value} value={value}>
+              Over {value}
+            </option>
+          ))}
+        </select>
+        <label className="chip">
+          Min km/h{" "}
+          <input
+            type="number"
+            value={minSpeed ?? ""}
+            onChange={(evt) => setMinSpeed(parseSpeed(evt.target.value))}
+          />
+        </label>
+        <label className="chip">
+          Max km/h{" "}
+          <input
+            type="number"
+            value={maxSpeed ?? ""}
+            onChange={(evt) => setMaxSpeed(parseSpeed(evt.target.value))}
+          />
+        </label>
+        <span className="chip">
+          {visible.length} of {deliveries.length} deliveries shown
+        </span>
+      </div>
+
+      <div className="spell-views-grid">
+        <figure>
+          <svg viewBox={`0 0 ${pitchWidth} ${pitchHeight}`} className="pitch-map">
+            {LENGTH_ZONES.map((entry, idx) => {
+              const from = idx === 0 ? 0 : LENGTH_ZONES[idx - 1].to;
+              const to = Math.min(entry.to, PITCH_SHOWN_LENGTH);
+              return (
+                <g key={entry.zone}>
+                  <rect
+                    x={pitchX(1.525)}
+                    y={pitchY(from)}
+                    width={3.05 * PITCH_SCALE}
+                    height={(to - from) * PITCH_SCALE}
+                    fill={ZONE_COLORS[entry.zone]}
+                    opacity={0.12}
+                  />
+                  <text x={4} y={pitchY(from) + 12} className="spell-label">
+                    {entry.label}
+                  </text>
+                </g>
+              );
+            })}
+            <line
+              x1={pitchX(1.525)}
+              x2={pitchX(-1.525)}
+              y1={pitchY(POPPING_CREASE_METERS)}
+              y2={pitchY(POPPING_CREASE_METERS)}
+              className="spell-line"
+            />
+            <rect
+              x={pitchX(STUMPS_WIDTH_METERS / 2)}
+              y={PITCH_MARGIN - 4}
+              width={STUMPS_WIDTH_METERS * PITCH_SCALE}
+              height={4}
+              className="spell-stumps"
+            />
+            {visible.map((mark) =>
+              mark.pitching
+                ? dot(mark, pitchX(mark.pitching.line), pitchY(mark.pitching.length), 3)
+                : null
+            )}
+          </svg>
+          <figcaption>Pitch map</figcaption>
+        </figure>
+
+        <figure>
+          <svg viewBox={`0 0 ${hiveWidth} ${hiveHeight}`} className="beehive">
+            <line x1={0} x2={hiveWidth} y1={hiveY(0)} y2={hiveY(0)} className="spell-line" />
+            <rect
+              x={hiveX(STUMPS_WIDTH_METERS / 2)}
+              y={hiveY(STUMPS_HEIGHT_METERS)}
+              width={STUMPS_WIDTH_METERS * BEEHIVE_SCALE}
+              height={STUMPS_HEIGHT_METERS * BEEHIVE_SCALE}
+              className="spell-stumps"
+            />
+            {visible.map((mark) =>
+              mark.stumps ? dot(mark, hiveX(mark.stumps.line), hiveY(mark.stumps.height), 4) : null
+            )}
+          </svg>
+          <figcaption>Beehive at the stumps</figcaption>
+        </figure>
+      </div>
+
+      <div className="chip-row">
+        {LENGTH_ZONES.map((entry) => (
+          <span key={entry.zone} className="chip">
+            <span className="legend-swatch" style={{ background: ZONE_COLORS[entry.zone] }} />
+            {entry.label}
+          </span>
+        ))}
+        <span className="chip">
+          <span className="legend-swatch" style={{ background: FULL_TOSS_COLOR }} />
+          Full toss
+        </span>
+      </div>
+      {marks.length < deliveries.length && (
+        <p>
+          {deliveries.length - marks.length} deliveries have no tracked ball flight and are not
+          plotted.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SpellViews;
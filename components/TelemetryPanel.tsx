@@ -1,5 +1,8 @@
 "use client";
 
+import { MetricConfidence, PROVENANCE_LABELS, SummaryMetric } from "../lib/confidence";
+import { formatDeviation, formatSwing } from "../lib/movement";
+import { describeDetector } from "../lib/poseModels";
 import type { AnalyzerStatus, AnalysisResult } from "./VideoAnalyzer";
 
 interface TelemetryPanelProps {
@@ -7,54 +10,191 @@ interface TelemetryPanelProps {
   result: AnalysisResult | null;
 }
 
+interface MetricCardProps {
+  label: string;
+  // Formatted value, or null when there is none yet.
+  value: string | null;
+  confidence?: MetricConfidence;
+  // Formats the interval half-width in the value's unit.
+  spread: (halfWidth: number) => string;
+}
+
+/** A summary value with its interval and provenance; defaulted values are never shown. */
+const MetricCard = ({ label, value, confidence, spread }: MetricCardProps) => {
+  const defaulted = confidence?.provenance === "defaulted";
+  const halfWidth =
+    confidence?.low != null && confidence.high != null
+      ? (confidence.high - confidence.low) / 2
+      : null;
+  return (
+    <div className="telemetry-card" title={confidence?.reason ?? undefined}>
+      <strong>{value != null && !defaulted ? value : "--"}</strong>
+      {value != null && !defaulted && halfWidth != null && Number.isFinite(halfWidth) && (
+        <small className="metric-interval">± {spread(halfWidth)}</small>
+      )}
+      <span>{label}</span>
+      {value != null && confidence && (
+        <small className={`provenance ${confidence.provenance}`}>
+          {PROVENANCE_LABELS[confidence.provenance]}
+          {confidence.reason ? ` • ${confidence.reason}` : ""}
+        </small>
+      )}
+    </div>
+  );
+};
+
 const TelemetryPanel = ({ status, result }: TelemetryPanelProps) => {
   const summary = result?.summary;
+  const confidenceOf = (metric: SummaryMetric) => result?.confidence?.[metric];
   const keyMoments = result?.keyMoments;
+  const markedMoments = result?.corrections?.keyMoments;
+  const reconstruction = result?.reconstruction;
+  const frontFoot = result?.frontFoot;
 
   return (
     <div className="panel">
       <h3>Telemetry</h3>
       <p>
-        Extracted ball release metrics, seam orientation, strike-zone prediction, and run-up
-        intensity. Values update automatically after each analysis.
+        Extracted ball release metrics, swing and seam movement, strike-zone prediction, and
+        run-up intensity. Movement is given for a right-handed batter. Values update
+        automatically after each analysis.
       </p>
 
       <div className="telemetry">
-        <div className="telemetry-card">
-          <strong>{summary ? `${Math.round(summary.releaseSpeedKph)} km/h` : "--"}</strong>
-          <span>Release Pace</span>
-        </div>
-        <div className="telemetry-card">
-          <strong>{summary ? `${summary.seamAngle.toFixed(1)}°` : "--"}</strong>
-          <span>Seam Orientation</span>
-        </div>
-        <div className="telemetry-card">
-          <strong>{summary ? `${summary.releaseHeight.toFixed(2)} m` : "--"}</strong>
-          <span>Release Height</span>
-        </div>
+        <MetricCard
+          label="Release Pace"
+          value={summary ? `${Math.round(summary.releaseSpeedKph)} km/h` : null}
+          confidence={confidenceOf("releaseSpeedKph")}
+          spread={(kph) => `${Math.round(kph)} km/h`}
+        />
+        <MetricCard
+          label="Seam Orientation"
+          value={
+            summary?.seamOrientation != null ? `${summary.seamOrientation.toFixed(1)}°` : null
+          }
+          confidence={confidenceOf("seamOrientation")}
+          spread={(degrees) => `${degrees.toFixed(1)}°`}
+        />
+        <MetricCard
+          label="Spin Rate"
+          value={summary?.spinRpm != null ? `${Math.round(summary.spinRpm)} rpm` : null}
+          confidence={confidenceOf("spinRpm")}
+          spread={(rpm) => `${Math.round(rpm)} rpm`}
+        />
+        <MetricCard
+          label="Swing"
+          value={summary?.swingCm != null ? formatSwing(summary.swingCm) : null}
+          confidence={confidenceOf("swingCm")}
+          spread={(cm) => `${cm.toFixed(0)} cm`}
+        />
+        <MetricCard
+          label="Off The Pitch"
+          value={
+            summary?.deviationDegrees != null ? formatDeviation(summary.deviationDegrees) : null
+          }
+          confidence={confidenceOf("deviationDegrees")}
+          spread={(degrees) => `${degrees.toFixed(1)}°`}
+        />
+        <MetricCard
+          label="Forearm Angle"
+          value={summary ? `${summary.seamAngle.toFixed(1)}°` : null}
+          confidence={confidenceOf("seamAngle")}
+          spread={(degrees) => `${degrees.toFixed(1)}°`}
+        />
+        <MetricCard
+          label="Release Height"
+          value={summary ? `${summary.releaseHeight.toFixed(2)} m` : null}
+          confidence={confidenceOf("releaseHeight")}
+          spread={(meters) => `${meters.toFixed(2)} m`}
+        />
+        <MetricCard
+          label="Pitching From Stumps"
+          value={
+            summary?.pitchingDistanceMeters != null
+              ? `${summary.pitchingDistanceMeters.toFixed(2)} m`
+              : null
+          }
+          confidence={confidenceOf("pitchingDistanceMeters")}
+          spread={(meters) => `${meters.toFixed(2)} m`}
+        />
+        <MetricCard
+          label="Impact From Stumps"
+          value={summary ? `${summary.predictedImpactMeters.toFixed(2)} m` : null}
+          confidence={confidenceOf("predictedImpactMeters")}
+          spread={(meters) => `${meters.toFixed(2)} m`}
+        />
         <div className="telemetry-card">
           <strong>
-            {summary ? `${summary.predictedImpactMeters.toFixed(2)} m` : "--"}
+            {reconstruction ? `${reconstruction.bounceHeight.toFixed(2)} m` : "--"}
           </strong>
-          <span>Impact From Stumps</span>
+          <span>Bounce Height</span>
         </div>
         <div className="telemetry-card">
-          <strong>{summary ? `${Math.round(summary.runupVelocityKph)} km/h` : "--"}</strong>
-          <span>Run-Up Velocity</span>
+          <strong>
+            {reconstruction?.reachesStumps
+              ? `${reconstruction.stumpsHeight.toFixed(2)} m / ` +
+                `${reconstruction.stumpsLine.toFixed(2)} m`
+              : "--"}
+          </strong>
+          <span>Height / Line At Stumps</span>
         </div>
+        <MetricCard
+          label="Run-Up Velocity"
+          value={summary ? `${Math.round(summary.runupVelocityKph)} km/h` : null}
+          confidence={confidenceOf("runupVelocityKph")}
+          spread={(kph) => `${Math.round(kph)} km/h`}
+        />
       </div>
 
+      {reconstruction?.assumedDepth && (
+        <span className="provenance estimated" style={{ fontSize: "0.85rem" }}>
+          Estimated trajectory: without a calibration the depth along the pitch is assumed, so
+          pace, length, and the path to the stumps are approximate.
+        </span>
+      )}
+
+      {frontFoot && (
+        <div className="front-foot">
+          {frontFoot.still && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={frontFoot.still} alt="Front foot at landing with the popping crease" />
+          )}
+          <div className="drs-row decision">
+            <span>
+              Front foot ({frontFoot.foot}) •{" "}
+              {frontFoot.unit === "m"
+                ? `${Math.abs(frontFoot.margin * 100).toFixed(1)} cm`
+                : `${Math.abs(frontFoot.margin).toFixed(0)} px`}{" "}
+              {frontFoot.margin > 0 ? "behind" : "over"} the crease
+              {frontFoot.source === "marked" ? " (marked line)" : ""}
+            </span>
+            <strong className={`drs-verdict ${frontFoot.legal ? "good" : "bad"}`}>
+              {frontFoot.legal ? "Fair Delivery" : "No Ball"}
+            </strong>
+          </div>
+        </div>
+      )}
+
       <div className="grid">
         <div className="chip-row">
           <span className="chip">
             Release Frame: {keyMoments ? keyMoments.releaseFrame + 1 : "--"}
+            {markedMoments?.releaseFrame != null ? " (edited)" : ""}
           </span>
           <span className="chip">
             Pitch Frame: {keyMoments ? keyMoments.pitchFrame + 1 : "--"}
+            {markedMoments?.pitchFrame != null ? " (edited)" : ""}
           </span>
           <span className="chip">
             Impact Frame: {keyMoments ? keyMoments.impactFrame + 1 : "--"}
+            {markedMoments?.impactFrame != null ? " (edited)" : ""}
+          </span>
+          <span className="chip">
+            Landing Frame: {keyMoments?.landingFrame != null ? keyMoments.landingFrame + 1 : "--"}
           </span>
+          {result?.settings.detector && (
+            <span className="chip">Pose Model: {describeDetector(result.settings.detector)}</span>
+          )}
         </div>
         <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
           {status === "processing"
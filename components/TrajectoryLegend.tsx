@@ -0,0 +1,43 @@
+"use client";
+
+import { Delivery, formatPace } from "../lib/session";
+
+interface TrajectoryLegendProps {
+  deliveries: Delivery[];
+  activeDeliveryId: string | null;
+  comparedIds: string[];
+  onToggle: (id: string, shown: boolean) => void;
+}
+
+const TRACK_COLORS = ["#ff8d5c", "#6fb8ff", "#7dffb3", "#ff8ad8", "#ffcf64", "#b18cff"];
+
+export const trackColor = (index: number) => TRACK_COLORS[index % TRACK_COLORS.length];
+
+const TrajectoryLegend = ({
+  deliveries,
+  activeDeliveryId,
+  comparedIds,
+  onToggle
+}: TrajectoryLegendProps) => (
+  <div className="chip-row">
+    {deliveries.map((delivery, idx) => {
+      const active = delivery.id === activeDeliveryId;
+      return (
+        <label key={delivery.id} className={`chip${active ? " active" : ""}`}>
+          <input
+            type="checkbox"
+            checked={active || comparedIds.includes(delivery.id)}
+            disabled={active}
+            onChange={(evt) => onToggle(delivery.id, evt.target.checked)}
+          />{" "}
+          <span className="legend-swatch" style={{ background: trackColor(idx) }} />
+          Ball {idx + 1}
+          {delivery.bowler ? ` • ${delivery.bowler}` : ""} •{" "}
+          {formatPace(delivery)}
+        </label>
+      );
+    })}
+  </div>
+);
+
+export default TrajectoryLegend;
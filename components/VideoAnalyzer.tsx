@@ -1,11 +1,84 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type {
-  Keypoint,
-  PoseDetector
-} from "@tensorflow-models/pose-detection";
-import { loadDetector } from "../lib/detector";
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import {
+  BallTrackSeed,
+  trackBall
+} from "../lib/ballTracker";
+import {
+  CameraCalibration,
+  LandmarkCorrespondence,
+  MIN_CORRESPONDENCES,
+  PITCH_LANDMARKS,
+  calibrateCamera,
+  clipStorageKey,
+  loadCalibration,
+  locateInWorld,
+  projectToImage,
+  saveCalibration
+} from "../lib/calibration";
+import {
+  AnalysisCorrections,
+  NO_CORRECTIONS,
+  applyFrameCorrections,
+  hasCorrections,
+  isBallEdited,
+  setBallPixel,
+  setKeyMoment,
+  toggleKeypoints
+} from "../lib/corrections";
+import {
+  coarseSampleTimes,
+  denseSampleTimes,
+  estimateFrameRate,
+  releaseWindow,
+  resolveDuration
+} from "../lib/frameSampling";
+import DetectorSettingsPanel from "./DetectorSettingsPanel";
+import KeyMomentTrack from "./KeyMomentTrack";
+import LiveCapture from "./LiveCapture";
+import ReplayExportPanel from "./ReplayExportPanel";
+import {
+  TimedSignal,
+  detectAudioOnset,
+  estimateOffsetFromMotion,
+  fuseCameraViews
+} from "../lib/multiCamera";
+import {
+  FrontFootCheck,
+  PixelLine,
+  checkFrontFoot,
+  findFrontFootLanding,
+  renderLandingStill
+} from "../lib/noBall";
+import { SeamEstimate, measureMovement, measureSeam } from "../lib/movement";
+import {
+  SummaryConfidence,
+  combine,
+  defaulted,
+  keypointSpread,
+  rateSeam,
+  slopeSpread,
+  within
+} from "../lib/confidence";
+import {
+  DEFAULT_DETECTOR_SETTINGS,
+  DetectorInfo,
+  DetectorSettings,
+  PoseFixtureFrame,
+  loadDetectorSettings,
+  saveDetectorSettings
+} from "../lib/poseModels";
+import { PoseSample, PoseSampler, createPoseSampler } from "../lib/poseSampling";
+import { BowlerLock, lockOnBowler, trackAtPixel, trackPeople } from "../lib/personTracking";
+import { analyzeRunUp } from "../lib/runUp";
+import {
+  PITCH_LENGTH_METERS,
+  Vec3,
+  interpolatePath,
+  reconstructTrajectory
+} from "../lib/trajectory";
 
 export type AnalyzerStatus = "idle" | "loading-model" | "processing" | "completed" | "error";
 
@@ -21,62 +94,211 @@ export interface FrameSnapshot {
   time: number;
   phase: FramePhase;
   ballPosition: [number, number, number];
+  // Tracked ball centre and radius in video pixels, null while the ball is not tracked.
+  ballPixel: [number, number, number] | null;
+  ballConfidence: number;
+  // Triangulation error in metres when the position comes from several cameras.
+  ballError: number | null;
   seamAngle: number;
   speedKph: number;
   releaseHeight: number;
+  // The bowler's keypoints; everyone else detected in the frame is kept in `people`.
   keypoints: Keypoint[];
+  people: Keypoint[][];
+}
+
+export interface TrajectoryReconstruction {
+  pitchingPoint: Vec3 | null;
+  bounceHeight: number;
+  // Whether the path gets to the stumps; the height and line are only read there when it does.
+  reachesStumps: boolean;
+  stumpsHeight: number;
+  stumpsLine: number;
+  fitResidual: number;
+  // No calibration or triangulation gave depth, so the fit ran on depths spread over the
+  // pitch and is an estimate.
+  assumedDepth: boolean;
+}
+
+export interface CameraFusion {
+  cameras: { label: string; position: Vec3 }[];
+  // Per frame, the ray each camera contributed, or null where it did not see the ball.
+  rays: ({ origin: Vec3; direction: Vec3 } | null)[][];
+}
+
+export interface AnalysisSettings {
+  sampleFrames: number;
+  seamSmoothing: number;
+  cameras: { label: string; offset: number; calibrated: boolean }[];
+  // Which detected person was followed as the bowler; null with only one person in view.
+  bowler: BowlerLock | null;
+  // Pose model the primary clip was sampled with; null for analyses stored before it was kept.
+  detector: DetectorInfo | null;
 }
 
 export interface AnalysisResult {
   frames: FrameSnapshot[];
   trajectory: [number, number, number][];
+  trajectoryError: number[] | null;
   keyMoments: {
     releaseFrame: number;
     pitchFrame: number;
     impactFrame: number;
+    // Front foot planting in the delivery stride, when the ankle could be followed.
+    landingFrame: number | null;
   };
+  reconstruction: TrajectoryReconstruction | null;
+  calibration: CameraCalibration | null;
+  fusion: CameraFusion | null;
+  frontFoot: FrontFootCheck | null;
+  // Hand edits the analysis was run with, so corrected values can be marked as such.
+  corrections: AnalysisCorrections | null;
+  // How far each summary value can be trusted and where it came from; null for analyses
+  // stored before it was kept.
+  confidence: SummaryConfidence | null;
   summary: {
     releaseSpeedKph: number;
+    // Forearm angle at release, a proxy from the pose rather than the ball.
     seamAngle: number;
     releaseHeight: number;
+    // Distance from the stumps of the ball at the impact frame.
     predictedImpactMeters: number;
+    // Distance from the stumps where the ball pitched; null for a full toss or without a
+    // reconstruction.
+    pitchingDistanceMeters: number | null;
     runupVelocityKph: number;
+    // Sideways movement in the air and off the pitch from the reconstructed path, positive
+    // towards the off side of a right-hander; null without a reconstruction.
+    swingCm: number | null;
+    deviationDegrees: number | null;
+    // Read from the ball itself where it is big enough in the frame.
+    seamOrientation: number | null;
+    spinRpm: number | null;
   };
+  settings: AnalysisSettings;
+}
+
+export interface ClipSource {
+  key: string;
+  name: string;
+  angles: StoredAngle[];
 }
 
 interface VideoAnalyzerProps {
   status: AnalyzerStatus;
   onStatusChange: (value: AnalyzerStatus) => void;
-  onResult: (result: AnalysisResult) => void;
+  onResult: (result: AnalysisResult, clip: ClipSource) => void;
+  // The same analysis once the landing still and seam have been read from the video; the
+  // selected frame and replay are left alone.
+  onRefined: (result: AnalysisResult, clip: ClipSource) => void;
   onSeek: (frameIndex: number) => void;
   currentKeyFrame: number;
+  // Current Hawk-Eye render, used for the picture-in-picture of exported replays.
+  getViewerCanvas?: () => HTMLCanvasElement | null;
+  // A stored delivery to show instead of the current clips, e.g. one reopened from the library.
+  restore?: { id: string; analysis: AnalysisResult; angles: StoredAngle[] | null } | null;
+  // Provisional analysis of the frames sampled so far, cleared with null when sampling ends.
+  onPreview?: (analysis: AnalysisResult | null) => void;
 }
 
-const SAMPLE_FRAMES = 90;
-const PITCH_LENGTH_METERS = 20.12;
+interface CameraAngle {
+  clipKey: string;
+  label: string;
+  file: Blob;
+  url: string;
+  frameSize: [number, number];
+  frames: FrameSnapshot[];
+  motion: TimedSignal[];
+  calibration: CameraCalibration | null;
+  // Popping crease marked by hand, used for the no-ball check when there is no calibration.
+  creaseLine: PixelLine | null;
+  corrections: AnalysisCorrections;
+  detector: DetectorInfo | null;
+  // Person picked by hand as the bowler; null follows whoever swings the arm over.
+  bowlerTrack: number | null;
+  // Seconds added to this clip's timestamps to line it up with the primary clip.
+  offset: number;
+  audioOnset: number | null;
+}
+
+// Everything needed to bring a camera angle back without re-running pose inference.
+export type StoredAngle = Omit<CameraAngle, "url">;
+
 const SEAM_SMOOTHING = 0.25;
+// Interval widths for values read without a calibration or a trajectory fit.
+const UNCALIBRATED_SPEED_SHARE = 0.15;
+const FRAME_SPEED_SHARE = 0.25;
+const UNCALIBRATED_LENGTH_METERS = 1.5;
+const UNCALIBRATED_HEIGHT_METERS = 0.3;
+// One-sigma ball position error assumed when the tracker gives none.
+const BALL_ERROR_METERS = 0.05;
+// Path length either side of the bounce over which a sideways error turns into deviation.
+const DEVIATION_BASELINE_METERS = 2;
+const PREVIEW_EVERY_FRAMES = 6;
+// A clip whose metadata has not arrived by then is treated as unreadable.
+const METADATA_TIMEOUT_MS = 15000;
+
+function findWrist(keypoints: Keypoint[]): Keypoint | undefined {
+  return (
+    keypoints.find((kp) => kp.name === "right_wrist") ??
+    keypoints.find((kp) => kp.name === "left_wrist")
+  );
+}
+
+function findElbow(keypoints: Keypoint[]): Keypoint | undefined {
+  return (
+    keypoints.find((kp) => kp.name === "right_elbow") ??
+    keypoints.find((kp) => kp.name === "left_elbow")
+  );
+}
+
+function mapPixelToBallPosition(
+  width: number,
+  height: number,
+  pixelX: number,
+  pixelY: number
+): [number, number, number] {
+  const normalizedX = pixelX / width - 0.5;
+  const normalizedY = 1 - pixelY / height;
+
+  const x = normalizedX * 3.6; // lateral variation (~3.6m width)
+  const y = normalizedY * 2.6; // height above ground, zero at the bottom of the frame
+  // map along pitch by temporal progression later
+  return [x, y, 0];
+}
 
 function mapKeypointsToBallPosition(
   width: number,
   height: number,
   keypoints: Keypoint[]
 ): [number, number, number] {
-  const wrist =
-    keypoints.find((kp) => kp.name === "right_wrist") ??
-    keypoints.find((kp) => kp.name === "left_wrist") ??
-    keypoints[0];
+  const wrist = findWrist(keypoints);
 
   if (!wrist) {
     return [0, 1.2, 0];
   }
 
-  const normalizedX = ((wrist.x ?? width / 2) / width) - 0.5;
-  const normalizedY = 1 - (wrist.y ?? height * 0.6) / height;
+  return mapPixelToBallPosition(
+    width,
+    height,
+    wrist.x ?? width / 2,
+    wrist.y ?? height * 0.6
+  );
+}
 
-  const x = normalizedX * 3.6; // lateral variation (~3.6m width)
-  const y = Math.max(0.4, normalizedY * 2.6); // height above ground
-  // map along pitch by temporal progression later
-  return [x, y, 0];
+// The ball leaves the hand near the top of the arm arc, so seed the tracker from the
+// frame where the wrist is highest in the image.
+function findReleaseSeed(keypointsByFrame: Keypoint[][]): BallTrackSeed | null {
+  return keypointsByFrame.reduce<BallTrackSeed | null>((best, keypoints, frameIndex) => {
+    const wrist = findWrist(keypoints);
+    if (!wrist || wrist.x == null || wrist.y == null || (wrist.score ?? 0) < 0.3) {
+      return best;
+    }
+    if (!best || wrist.y < best.y) {
+      return { frameIndex, x: wrist.x, y: wrist.y };
+    }
+    return best;
+  }, null);
 }
 
 function computeSeamAngle(keypoints: Keypoint[]): number {
@@ -116,91 +338,340 @@ function smoothSeries(series: number[], factor = 0.35): number[] {
   return output;
 }
 
+const MAX_FRAMES_IN_FLIGHT = 2;
+
+const abortError = () => new DOMException("Pose sampling cancelled.", "AbortError");
+
+function seekVideo(video: HTMLVideoElement, time: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener("seeked", handleSeeked);
+      signal.removeEventListener("abort", handleAbort);
+    };
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    video.addEventListener("seeked", handleSeeked);
+    signal.addEventListener("abort", handleAbort);
+    video.currentTime = time;
+  });
+}
+
+function toSnapshot(time: number, rawPeople: Keypoint[][]): FrameSnapshot {
+  const people = rawPeople
+    .map((keypoints) => keypoints.filter(({ score }) => (score ?? 0) > 0.2))
+    .filter((keypoints) => keypoints.length);
+  return {
+    time,
+    phase: "Run-Up",
+    ballPosition: [0, 1.2, 0],
+    ballPixel: null,
+    ballConfidence: 0,
+    ballError: null,
+    seamAngle: computeSeamAngle(people[0] ?? []),
+    speedKph: 0,
+    releaseHeight: 1.2,
+    keypoints: people[0] ?? [],
+    people
+  };
+}
+
+type TimedSample = PoseSample & { time: number };
+
+// Keeps one person's keypoints on every frame: the chosen track, or whoever swings the arm
+// over. Frames stored before everyone was kept hold just the one person.
+function lockFrames(
+  frames: FrameSnapshot[],
+  choice: number | null = null
+): { frames: FrameSnapshot[]; lock: BowlerLock | null } {
+  const { keypoints, lock } = lockOnBowler(
+    frames.map((frame) => frame.people ?? [frame.keypoints]),
+    choice
+  );
+  return {
+    frames: frames.map((frame, idx) => ({
+      ...frame,
+      keypoints: keypoints[idx],
+      seamAngle: computeSeamAngle(keypoints[idx])
+    })),
+    lock
+  };
+}
+
+/**
+ * Seeks to each time on the main thread and hands the frame to the pose worker, keeping a
+ * couple of frames in flight so seeking overlaps inference. Samples arrive in order.
+ */
+async function sampleFrames(
+  video: HTMLVideoElement,
+  sampler: PoseSampler,
+  times: number[],
+  signal: AbortSignal,
+  onSample: (sample: TimedSample) => void
+): Promise<void> {
+  const inFlight: Promise<void>[] = [];
+  let failure: unknown = null;
+
+  const runId = sampler.startRun();
+  const cancel = () => sampler.cancel(runId);
+  signal.addEventListener("abort", cancel);
+  try {
+    for (const time of times) {
+      if (signal.aborted) throw abortError();
+      await seekVideo(video, time, signal);
+      const bitmap = await createImageBitmap(video);
+      inFlight.push(
+        sampler.process(runId, bitmap, time).then(
+          (sample) => onSample({ ...sample, time }),
+          (err) => {
+            failure ??= err;
+          }
+        )
+      );
+      if (inFlight.length >= MAX_FRAMES_IN_FLIGHT) await inFlight.shift();
+      if (failure) throw failure;
+    }
+    await Promise.all(inFlight);
+    if (failure) throw failure;
+  } finally {
+    cancel();
+    signal.removeEventListener("abort", cancel);
+  }
+}
+
+/**
+ * Two passes: a coarse sweep of the whole clip finds the load-up and release from the arm,
+ * then the release window, through pitch and impact, is resampled at the native frame rate.
+ * Frame times are the real presentation times, so speeds use true inter-frame intervals.
+ * `onFrame` reports progress after every sample; `snapshot` builds the frames sampled so far,
+ * in time order, which costs a full lock so callers only ask when they preview.
+ */
 async function samplePosesFromVideo(
   video: HTMLVideoElement,
-  detector: PoseDetector
-): Promise<FrameSnapshot[]> {
-  const canvas = document.createElement("canvas");
-  const context = canvas.getContext("2d", { willReadFrequently: true });
-  if (!context) throw new Error("Canvas rendering context unavailable.");
-  canvas.width = video.videoWidth || 1280;
-  canvas.height = video.videoHeight || 720;
-
-  const duration = video.duration || 3;
-  const frames: FrameSnapshot[] = [];
-  const step = Math.max(duration / SAMPLE_FRAMES, 0.02);
-
-  for (let time = 0; time <= duration; time += step) {
-    await new Promise<void>((resolve) => {
-      const handleSeeked = () => {
-        video.removeEventListener("seeked", handleSeeked);
-        resolve();
-      };
-      video.addEventListener("seeked", handleSeeked);
-      video.currentTime = Math.min(time, duration - 0.05);
-    });
+  sampler: PoseSampler,
+  signal: AbortSignal,
+  onFrame: (done: number, total: number, snapshot: () => FrameSnapshot[]) => void
+): Promise<{ frames: FrameSnapshot[]; motion: TimedSignal[] }> {
+  const width = video.videoWidth || 1280;
+  const height = video.videoHeight || 720;
+  const duration = (await resolveDuration(video, signal)) || 3;
+  const frameRate = await estimateFrameRate(video);
+  if (signal.aborted) throw abortError();
 
-    context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const poses = await detector.estimatePoses(video, { flipHorizontal: false });
-    const keypoints =
-      poses[0]?.keypoints?.filter(({ score }) => (score ?? 0) > 0.2) ?? [];
-    const ballPosition = mapKeypointsToBallPosition(
-      canvas.width,
-      canvas.height,
-      poses[0]?.keypoints ?? []
+  const coarseTimes = coarseSampleTimes(duration, frameRate);
+  const coarse: TimedSample[] = [];
+  await sampleFrames(video, sampler, coarseTimes, signal, (sample) => {
+    coarse.push(sample);
+    onFrame(
+      coarse.length,
+      coarseTimes.length,
+      () => lockFrames(coarse.map((entry) => toSnapshot(entry.time, entry.people))).frames
     );
-    frames.push({
-      time,
-      phase: "Run-Up",
+  });
+
+  // Without a visible bowling arm, fall back to sampling the whole clip as densely as allowed.
+  const coarseFrames = lockFrames(coarse.map((entry) => toSnapshot(entry.time, entry.people)));
+  const span = releaseWindow(coarseFrames.frames) ?? { start: 0, end: duration };
+  const denseTimes = denseSampleTimes(span, frameRate, duration);
+  const outside = coarse.filter((entry) => entry.time < span.start || entry.time > span.end);
+  const dense: TimedSample[] = [];
+  const merged = () => [...outside, ...dense].sort((a, b) => a.time - b.time);
+  await sampleFrames(video, sampler, denseTimes, signal, (sample) => {
+    dense.push(sample);
+    onFrame(
+      coarse.length + dense.length,
+      coarse.length + denseTimes.length,
+      () => lockFrames(merged().map((entry) => toSnapshot(entry.time, entry.people))).frames
+    );
+  });
+
+  const samples = merged();
+  const { frames } = lockFrames(samples.map((entry) => toSnapshot(entry.time, entry.people)));
+  const seed = findReleaseSeed(frames.map((frame) => frame.keypoints));
+  const track = seed
+    ? trackBall(
+        samples.map((entry) => entry.candidates),
+        seed,
+        { width, height }
+      )
+    : frames.map(() => null);
+
+  return {
+    frames: frames.map((frame, idx) => {
+      const point = track[idx];
+      if (!point) return frame;
+      return {
+        ...frame,
+        ballPixel: [point.x, point.y, point.radius],
+        ballConfidence: point.confidence
+      };
+    }),
+    motion: samples.map((entry) => ({ time: entry.time, value: entry.motion }))
+  };
+}
+
+function placeBall(
+  frames: FrameSnapshot[],
+  frameSize: [number, number],
+  calibration: CameraCalibration | null
+): FrameSnapshot[] {
+  const [width, height] = frameSize;
+  let lastTracked: [number, number, number] | null = null;
+
+  return frames.map((frame) => {
+    let ballPosition: [number, number, number] | null = null;
+    if (frame.ballPixel) {
+      const [x, y, radius] = frame.ballPixel;
+      ballPosition = calibration
+        ? locateInWorld(calibration, [x, y], radius)
+        : mapPixelToBallPosition(width, height, x, y);
+    }
+
+    if (ballPosition) {
+      lastTracked = ballPosition;
+    } else if (lastTracked) {
+      // Track lost after release: hold the last sighting rather than follow the arm.
+      ballPosition = lastTracked;
+    } else {
+      // Still in the bowler's hand.
+      const wrist = findWrist(frame.keypoints);
+      ballPosition =
+        calibration && wrist?.x != null && wrist.y != null
+          ? locateInWorld(calibration, [wrist.x, wrist.y])
+          : null;
+      ballPosition ??= mapKeypointsToBallPosition(width, height, frame.keypoints);
+    }
+
+    return {
+      ...frame,
       ballPosition,
-      seamAngle: computeSeamAngle(keypoints),
-      speedKph: 0,
-      releaseHeight: Math.max(ballPosition[1], 1.2),
-      keypoints
-    });
+      releaseHeight: Math.max(ballPosition[1], 1.2)
+    };
+  });
+}
+
+function nearestFrameIndex(frames: FrameSnapshot[], time: number): number {
+  return frames.reduce(
+    (closest, frame, idx) =>
+      Math.abs(frame.time - time) < Math.abs(frames[closest].time - time) ? idx : closest,
+    0
+  );
+}
+
+// A single uncalibrated view has no depth, so spread the tracked flight along the pitch
+// by elapsed time since release. This is an assumption, and the reconstruction built on
+// it is marked as such. Before release the ball is still at the bowler's end.
+function estimateDepths(frames: FrameSnapshot[], releaseFrame: number): number[] {
+  const lastTracked = frames.reduce(
+    (acc, frame, idx) => (frame.ballConfidence > 0 ? idx : acc),
+    -1
+  );
+  if (releaseFrame < 0 || lastTracked <= releaseFrame) {
+    return frames.map((_, idx) => (idx / Math.max(frames.length - 1, 1)) * PITCH_LENGTH_METERS);
   }
+  const releaseTime = frames[releaseFrame].time;
+  const flightTime = frames[lastTracked].time - releaseTime || 1;
+  return frames.map((frame) => {
+    const progress = Math.min(Math.max((frame.time - releaseTime) / flightTime, 0), 1);
+    return progress * PITCH_LENGTH_METERS;
+  });
+}
 
-  return frames;
+function nearestFusedError(frames: FrameSnapshot[], time: number): number | null {
+  return frames.reduce<{ error: number; gap: number } | null>((best, frame) => {
+    if (frame.ballError == null) return best;
+    const gap = Math.abs(frame.time - time);
+    return !best || gap < best.gap ? { error: frame.ballError, gap } : best;
+  }, null)?.error ?? null;
 }
 
-function enrichFrames(frames: FrameSnapshot[]): AnalysisResult {
+function enrichFrames(
+  frames: FrameSnapshot[],
+  calibration: CameraCalibration | null,
+  fusion: CameraFusion | null = null,
+  marked: AnalysisCorrections["keyMoments"] = {}
+): Omit<AnalysisResult, "settings" | "frontFoot" | "corrections"> {
   if (frames.length === 0) {
     const fallback: FrameSnapshot = {
       time: 0,
       phase: "Run-Up",
       ballPosition: [0, 1.5, 0],
+      ballPixel: null,
+      ballConfidence: 0,
+      ballError: null,
       seamAngle: 15,
       speedKph: 115,
       releaseHeight: 1.86,
-      keypoints: []
+      keypoints: [],
+      people: []
     };
+    const unsampled = defaulted("No frames were sampled.");
     return {
       frames: [fallback],
       trajectory: [[0, 1.5, 0]],
+      trajectoryError: null,
       keyMoments: {
         releaseFrame: 0,
         pitchFrame: 0,
-        impactFrame: 0
+        impactFrame: 0,
+        landingFrame: null
+      },
+      reconstruction: null,
+      calibration,
+      fusion,
+      confidence: {
+        releaseSpeedKph: unsampled,
+        seamAngle: unsampled,
+        releaseHeight: unsampled,
+        predictedImpactMeters: unsampled,
+        runupVelocityKph: unsampled
       },
       summary: {
         releaseSpeedKph: 115,
         seamAngle: 15,
         releaseHeight: 1.86,
         predictedImpactMeters: 5.4,
-        runupVelocityKph: 24
+        pitchingDistanceMeters: null,
+        runupVelocityKph: 24,
+        swingCm: null,
+        deviationDegrees: null,
+        seamOrientation: null,
+        spinRpm: null
       }
     };
   }
 
-  const positions = frames.map((frame, idx) => {
-    const progress = idx / Math.max(frames.length - 1, 1);
-    const depth = progress * PITCH_LENGTH_METERS;
-    return [frame.ballPosition[0], frame.ballPosition[1], depth] as [
-      number,
-      number,
-      number
-    ];
-  });
+  const trackedRelease =
+    marked.releaseFrame ?? frames.findIndex((frame) => frame.ballConfidence > 0);
+  const depths = calibration
+    ? frames.map((frame) => frame.ballPosition[2])
+    : estimateDepths(frames, trackedRelease);
+  const observed = frames.map(
+    (frame, idx) =>
+      [frame.ballPosition[0], frame.ballPosition[1], depths[idx]] as [number, number, number]
+  );
+
+  const fit = reconstructTrajectory(
+    frames.map((frame, idx) => ({
+      time: frame.time,
+      position: observed[idx],
+      weight: idx < trackedRelease ? 0 : frame.ballConfidence
+    })),
+    { bounceTime: marked.pitchFrame != null ? frames[marked.pitchFrame]?.time : undefined }
+  );
+
+  const positions = fit
+    ? observed.map((position, idx) =>
+        idx < trackedRelease
+          ? position
+          : interpolatePath(fit.path, fit.pathTimes, frames[idx].time)
+      )
+    : observed;
 
   const speeds: number[] = frames.map((frame, idx) => {
     if (idx === 0) return 0;
@@ -220,17 +691,42 @@ function enrichFrames(frames: FrameSnapshot[]): AnalysisResult {
     SEAM_SMOOTHING
   );
 
-  const releaseFrame =
-    smoothedSpeeds.reduce(
-      (acc, speed, idx) => (speed > smoothedSpeeds[acc] ? idx : acc),
-      Math.floor(smoothedSpeeds.length * 0.4)
-    ) ?? 0;
-
-  const pitchFrame = Math.min(frames.length - 1, releaseFrame + Math.floor(frames.length * 0.25));
-  const impactFrame = Math.min(frames.length - 1, pitchFrame + Math.floor(frames.length * 0.2));
+  let releaseFrame: number;
+  let pitchFrame: number;
+  let impactFrame: number;
+  if (fit) {
+    releaseFrame = trackedRelease;
+    pitchFrame = nearestFrameIndex(frames, fit.bounceTime ?? fit.stumpsTime);
+    impactFrame = Math.max(pitchFrame, nearestFrameIndex(frames, fit.stumpsTime));
+  } else {
+    releaseFrame =
+      marked.releaseFrame ??
+      smoothedSpeeds.reduce(
+        (acc, speed, idx) => (speed > smoothedSpeeds[acc] ? idx : acc),
+        Math.floor(smoothedSpeeds.length * 0.4)
+      ) ??
+      0;
+    const span = frames[frames.length - 1].time - frames[0].time;
+    pitchFrame = nearestFrameIndex(frames, frames[releaseFrame].time + span * 0.25);
+    impactFrame = Math.max(
+      pitchFrame,
+      nearestFrameIndex(frames, frames[pitchFrame].time + span * 0.2)
+    );
+  }
+  // Moments marked by hand win over anything detected.
+  pitchFrame = marked.pitchFrame ?? pitchFrame;
+  impactFrame = marked.impactFrame ?? Math.max(impactFrame, pitchFrame);
 
-  const phases: FramePhase[] = frames.map((_, idx) => {
-    if (idx < releaseFrame * 0.5) return "Run-Up";
+  // Load-up starts with the bound into the delivery stride; without visible feet, fall back
+  // to splitting the time before release in half.
+  const landingFrame = findFrontFootLanding(frames, releaseFrame)?.frame ?? null;
+  const runUp = analyzeRunUp(frames, releaseFrame, landingFrame, calibration);
+  const loadUpTime =
+    runUp?.loadUpFrame != null
+      ? frames[runUp.loadUpFrame].time
+      : (frames[0].time + frames[releaseFrame].time) / 2;
+  const phases: FramePhase[] = frames.map((frame, idx) => {
+    if (frame.time < loadUpTime) return "Run-Up";
     if (idx < releaseFrame) return "Load-Up";
     if (idx === releaseFrame) return "Release";
     if (idx <= pitchFrame) return "Pitch";
@@ -247,53 +743,382 @@ function enrichFrames(frames: FrameSnapshot[]): AnalysisResult {
     releaseHeight: frames[idx].ballPosition[1]
   }));
 
-  const releaseSpeedKph = smoothedSpeeds[releaseFrame] || 122;
-  const runupVelocityKph = smoothedSpeeds[Math.floor(releaseFrame * 0.5)] || 22;
-  const predictedImpactMeters = Math.max(
-    0,
-    PITCH_LENGTH_METERS - positions[impactFrame][2]
+  const releaseSpeedKph = fit?.releaseSpeedKph || smoothedSpeeds[releaseFrame] || 122;
+  const summarySeamAngle = seamAngles[releaseFrame] || 14;
+  const releaseHeight = enrichedFrames[releaseFrame]?.releaseHeight ?? 1.85;
+  const runupVelocityKph =
+    runUp?.approachSpeedKph ?? (smoothedSpeeds[nearestFrameIndex(frames, loadUpTime)] || 22);
+  const predictedImpactMeters = Math.max(0, PITCH_LENGTH_METERS - positions[impactFrame][2]);
+  const pitchingDistanceMeters = fit?.pitchingPoint
+    ? Math.max(0, PITCH_LENGTH_METERS - fit.pitchingPoint[2])
+    : null;
+  const measured = fit ? measureMovement(fit.path, fit.pitchingPoint) : null;
+  // An unfitted rebound just carries on the incoming line, which would read as no deviation.
+  const movement =
+    measured && !fit?.reboundFitted ? { ...measured, deviationDegrees: null } : measured;
+
+  // Every summary value says where it came from, so placeholders are never shown as results.
+  const uncalibrated = calibration
+    ? null
+    : "No camera calibration; depth and scale are assumed from the frame.";
+  // Without calibration the depth along the pitch is spread over its full length rather than
+  // measured, so anything read along the pitch rests on that assumption.
+  const assumedDepth = calibration
+    ? null
+    : "No camera calibration; depth is spread over the pitch, as if the ball reached the stumps.";
+  const fromFit = calibration ? "measured" : "estimated";
+  const tracked = frames.filter(
+    (frame, idx) => idx >= Math.max(trackedRelease, 0) && frame.ballConfidence > 0
   );
+  const trackedSpan = tracked.length ? tracked[tracked.length - 1].time - tracked[0].time : 0;
+  const releaseSnapshot = frames[releaseFrame];
+  const releaseJoints = [
+    findWrist(releaseSnapshot.keypoints),
+    findElbow(releaseSnapshot.keypoints)
+  ];
+  const armSeen = frames.some((frame) => findWrist(frame.keypoints) && findElbow(frame.keypoints));
+  const notTracked = "The ball was not tracked after release.";
+  const lengthSpread = fit
+    ? combine(2 * fit.residual, calibration ? 0 : UNCALIBRATED_LENGTH_METERS)
+    : 0;
+  const confidence: SummaryConfidence = {
+    releaseSpeedKph: fit?.releaseSpeedKph
+      ? within(
+          fromFit,
+          releaseSpeedKph,
+          combine(
+            slopeSpread(fit.residual, tracked.length, trackedSpan) * 3.6,
+            calibration ? 0 : releaseSpeedKph * UNCALIBRATED_SPEED_SHARE
+          ),
+          assumedDepth
+        )
+      : smoothedSpeeds[releaseFrame]
+        ? within(
+            "estimated",
+            releaseSpeedKph,
+            releaseSpeedKph * FRAME_SPEED_SHARE,
+            "No trajectory fit; pace from frame-to-frame positions."
+          )
+        : defaulted(notTracked),
+    seamAngle: !armSeen
+      ? defaulted("The bowling arm was not visible.")
+      : releaseJoints.every(Boolean)
+        ? within("measured", summarySeamAngle, keypointSpread(releaseJoints, 3, 20))
+        : within(
+            "estimated",
+            summarySeamAngle,
+            20,
+            "The bowling arm was hidden at release; smoothed from nearby frames."
+          ),
+    releaseHeight: !releaseSnapshot.ballPixel
+      ? defaulted("The ball was not found at release.")
+      : calibration
+        ? within("measured", releaseHeight, 2 * (releaseSnapshot.ballError ?? BALL_ERROR_METERS))
+        : within("estimated", releaseHeight, UNCALIBRATED_HEIGHT_METERS, uncalibrated),
+    predictedImpactMeters: fit
+      ? within(fromFit, predictedImpactMeters, lengthSpread, assumedDepth)
+      : trackedRelease >= 0
+        ? within(
+            "estimated",
+            predictedImpactMeters,
+            3,
+            "No trajectory fit; taken from the tracked position at impact."
+          )
+        : defaulted(notTracked),
+    ...(fit && pitchingDistanceMeters != null
+      ? {
+          pitchingDistanceMeters: within(
+            fromFit,
+            pitchingDistanceMeters,
+            lengthSpread,
+            assumedDepth
+          )
+        }
+      : {}),
+    runupVelocityKph:
+      runUp?.approachSpeedKph != null
+        ? within(
+            calibration ? "measured" : "estimated",
+            runupVelocityKph,
+            runupVelocityKph * (calibration ? 0.1 : 0.25),
+            calibration ? null : "No camera calibration; scale taken from the bowler's build."
+          )
+        : smoothedSpeeds[nearestFrameIndex(frames, loadUpTime)]
+          ? within(
+              "estimated",
+              runupVelocityKph,
+              runupVelocityKph * 0.5,
+              "Feet not tracked; speed from the bowling hand before release."
+            )
+          : defaulted("The run-up was not visible."),
+    ...(fit && movement
+      ? {
+          swingCm: within(fromFit, movement.swingCm, 2 * fit.residual * 100, uncalibrated),
+          ...(movement.deviationDegrees != null
+            ? {
+                deviationDegrees: within(
+                  fromFit,
+                  movement.deviationDegrees,
+                  (Math.atan((2 * fit.residual) / DEVIATION_BASELINE_METERS) * 180) / Math.PI,
+                  uncalibrated
+                )
+              }
+            : fit.pitchingPoint && !fit.reboundFitted
+              ? {
+                  deviationDegrees: defaulted(
+                    "Too few ball sightings after the bounce to measure deviation."
+                  )
+                }
+              : {})
+        }
+      : {})
+  };
 
   return {
     frames: enrichedFrames,
-    trajectory: positions,
+    trajectory: fit ? fit.path : positions,
+    trajectoryError: fusion
+      ? (fit ? fit.pathTimes : frames.map((frame) => frame.time)).map(
+          (time) => nearestFusedError(frames, time) ?? 0
+        )
+      : null,
     keyMoments: {
       releaseFrame,
       pitchFrame,
-      impactFrame
+      impactFrame,
+      landingFrame
     },
+    reconstruction: fit
+      ? {
+          pitchingPoint: fit.pitchingPoint,
+          bounceHeight: fit.bounceHeight,
+          reachesStumps: fit.reachesStumps,
+          stumpsHeight: fit.stumpsHeight,
+          stumpsLine: fit.stumpsLine,
+          fitResidual: fit.residual,
+          assumedDepth: !calibration
+        }
+      : null,
+    calibration,
+    fusion,
+    confidence,
     summary: {
       releaseSpeedKph,
-      seamAngle: seamAngles[releaseFrame] || 14,
-      releaseHeight: enrichedFrames[releaseFrame]?.releaseHeight ?? 1.85,
+      seamAngle: summarySeamAngle,
+      releaseHeight,
       predictedImpactMeters,
-      runupVelocityKph
+      pitchingDistanceMeters,
+      runupVelocityKph,
+      swingCm: movement?.swingCm ?? null,
+      deviationDegrees: movement?.deviationDegrees ?? null,
+      seamOrientation: null,
+      spinRpm: null
     }
   };
 }
 
+const CREASE_DEPTHS = [0, 1.22, PITCH_LENGTH_METERS - 1.22, PITCH_LENGTH_METERS];
+const RETURN_CREASE_OFFSET = 1.32;
+
+// Adds what was read from the video after the analysis: the landing still and the seam.
+function withRefinements(
+  analysis: AnalysisResult,
+  still: string | null,
+  seam: SeamEstimate | null
+): AnalysisResult {
+  const { frontFoot } = analysis;
+  return {
+    ...analysis,
+    frontFoot: frontFoot && still ? { ...frontFoot, still } : frontFoot,
+    summary: seam
+      ? { ...analysis.summary, seamOrientation: seam.orientation, spinRpm: seam.spinRpm }
+      : analysis.summary,
+    confidence:
+      seam && analysis.confidence
+        ? { ...analysis.confidence, ...rateSeam(seam) }
+        : analysis.confidence
+  };
+}
+
+function judgeFrontFoot(
+  analysis: Omit<AnalysisResult, "settings" | "frontFoot" | "corrections">,
+  primary: CameraAngle
+): FrontFootCheck | null {
+  return checkFrontFoot(analysis.frames, analysis.keyMoments.releaseFrame, {
+    calibration: primary.calibration,
+    marked: primary.creaseLine ?? null
+  });
+}
+
+// The primary clip defines the timeline. With two or more calibrated angles the ball is
+// triangulated per frame; frames no second camera saw are kept for display but left out
+// of the trajectory fit. Hand corrections apply to the primary clip.
+function analyzeAngles(angles: CameraAngle[]): AnalysisResult {
+  const [primary] = angles;
+  // Angles stored before the bowler could be picked by hand follow the arm swing.
+  const locked = lockFrames(primary.frames, primary.bowlerTrack ?? null);
+  const settings: AnalysisSettings = {
+    sampleFrames: angles[0]?.frames.length ?? 0,
+    seamSmoothing: SEAM_SMOOTHING,
+    cameras: angles.map((angle) => ({
+      label: angle.label,
+      offset: angle.offset,
+      calibrated: Boolean(angle.calibration)
+    })),
+    bowler: locked.lock,
+    detector: primary.detector ?? null
+  };
+  // Angles stored before corrections existed have none.
+  const corrections = primary.corrections ?? NO_CORRECTIONS;
+  const edited = hasCorrections(corrections) ? corrections : null;
+  const frames = applyFrameCorrections(locked.frames, corrections);
+  const placed = placeBall(frames, primary.frameSize, primary.calibration);
+  const others = angles.slice(1).filter((angle) => angle.calibration && angle.frames.length);
+  if (!primary.calibration || !others.length) {
+    const analysis = enrichFrames(placed, primary.calibration, null, corrections.keyMoments);
+    return {
+      ...analysis,
+      frontFoot: judgeFrontFoot(analysis, primary),
+      corrections: edited,
+      settings
+    };
+  }
+
+  const views = [primary, ...others];
+  const observations = fuseCameraViews(
+    views.map((angle) => ({
+      calibration: angle.calibration as CameraCalibration,
+      offset: angle.offset,
+      frames: angle === primary ? frames : angle.frames
+    }))
+  );
+  const fused = placed.map((frame, idx) => {
+    const observation = observations[idx];
+    if (!observation) return { ...frame, ballConfidence: 0, ballError: null };
+    return {
+      ...frame,
+      ballPosition: observation.position,
+      ballConfidence: observation.confidence,
+      ballError: observation.error,
+      releaseHeight: observation.position[1]
+    };
+  });
+
+  const analysis = enrichFrames(
+    fused,
+    primary.calibration,
+    {
+      cameras: views.map((angle) => ({
+        label: angle.label,
+        position: (angle.calibration as CameraCalibration).cameraPosition
+      })),
+      rays: placed.map((_, idx) =>
+        (observations[idx]?.rays ?? views.map(() => null)).map((ray) =>
+          ray ? { origin: ray.origin, direction: ray.direction } : null
+        )
+      )
+    },
+    corrections.keyMoments
+  );
+  return {
+    ...analysis,
+    frontFoot: judgeFrontFoot(analysis, primary),
+    corrections: edited,
+    settings
+  };
+}
+
+function drawPitchMarkings(ctx: CanvasRenderingContext2D, calibration: CameraCalibration) {
+  ctx.save();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = "rgba(247, 249, 255, 0.55)";
+  CREASE_DEPTHS.forEach((depth) => {
+    const start = projectToImage(calibration, [-RETURN_CREASE_OFFSET, 0, depth]);
+    const end = projectToImage(calibration, [RETURN_CREASE_OFFSET, 0, depth]);
+    ctx.beginPath();
+    ctx.moveTo(start[0], start[1]);
+    ctx.lineTo(end[0], end[1]);
+    ctx.stroke();
+  });
+  ctx.restore();
+}
+
 const VideoAnalyzer = ({
   status,
   onStatusChange,
   onResult,
+  onRefined,
   onSeek,
-  currentKeyFrame
+  currentKeyFrame,
+  getViewerCanvas,
+  restore,
+  onPreview
 }: VideoAnalyzerProps) => {
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [angles, setAngles] = useState<CameraAngle[]>([]);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [activeAngle, setActiveAngle] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const overlayRef = useRef<HTMLCanvasElement>(null);
   const framesRef = useRef<FrameSnapshot[]>([]);
+  const analysisFramesRef = useRef<FrameSnapshot[]>([]);
+  const anglesRef = useRef<CameraAngle[]>([]);
+  const calibrationRef = useRef<CameraCalibration | null>(null);
+  const creaseRef = useRef<PixelLine | null>(null);
+  const correctionsRef = useRef<AnalysisCorrections | null>(null);
+  const samplerRef = useRef<PoseSampler | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The running landing-still and seam pass, cancelled as soon as a newer analysis starts.
+  const refineRef = useRef<AbortController | null>(null);
+  // What the last finished pass read and found.
+  const refinedRef = useRef<{
+    stillKey: string;
+    still: string | null;
+    seamKey: string;
+    seam: SeamEstimate | null;
+  } | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
+  const [correspondences, setCorrespondences] = useState<LandmarkCorrespondence[]>([]);
+  const [activeLandmark, setActiveLandmark] = useState(PITCH_LANDMARKS[0].id);
+  const [creasePoints, setCreasePoints] = useState<[number, number][] | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [pickingBowler, setPickingBowler] = useState(false);
+  const [detectorSettings, setDetectorSettings] = useState(DEFAULT_DETECTOR_SETTINGS);
+  const [fixture, setFixture] = useState<{ name: string; frames: PoseFixtureFrame[] } | null>(
+    null
+  );
+  const detectorRef = useRef<{ settings: DetectorSettings; fixture: PoseFixtureFrame[] | null }>(
+    { settings: DEFAULT_DETECTOR_SETTINGS, fixture: null }
+  );
 
-  const selectedFrame = useMemo(() => framesRef.current[currentKeyFrame], [currentKeyFrame]);
+  const activeClip = angles[activeAngle] ?? null;
+  const calibration = activeClip?.calibration ?? null;
+  const calibratedAngles = angles.filter((angle) => angle.calibration).length;
+
+  // Re-read after every analysis, since corrections replace the frames in place.
+  const selectedFrame = useMemo(
+    () => (activeAngle === 0 ? framesRef.current[currentKeyFrame] : undefined),
+    [activeAngle, currentKeyFrame, analysis]
+  );
 
   useEffect(() => {
     return () => {
-      if (videoUrl) {
-        URL.revokeObjectURL(videoUrl);
-      }
+      abortRef.current?.abort();
+      refineRef.current?.abort();
+      samplerRef.current?.dispose();
+      anglesRef.current.forEach((angle) => URL.revokeObjectURL(angle.url));
     };
-  }, [videoUrl]);
+  }, []);
+
+  // Follow key-frame changes made elsewhere (slider, 3D replay) while the video is paused.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !selectedFrame || !video.paused) return;
+    const frames = framesRef.current;
+    if (nearestFrameIndex(frames, video.currentTime) === currentKeyFrame) return;
+    video.currentTime = selectedFrame.time;
+  }, [selectedFrame, currentKeyFrame]);
 
   const drawOverlay = useCallback((frame?: FrameSnapshot) => {
     const canvas = overlayRef.current;
@@ -304,8 +1129,51 @@ const VideoAnalyzer = ({
     canvas.height = video.videoHeight || video.clientHeight || 720;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
+    const activeCalibration = calibrationRef.current;
+    if (activeCalibration) {
+      drawPitchMarkings(ctx, activeCalibration);
+    }
+    const crease = creaseRef.current;
+    if (crease) {
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = "rgba(255, 207, 100, 0.8)";
+      ctx.beginPath();
+      ctx.moveTo(crease[0][0], crease[0][1]);
+      ctx.lineTo(crease[1][0], crease[1][1]);
+      ctx.stroke();
+    }
+
     if (!frame) return;
 
+    const corrections = correctionsRef.current;
+    const frameIndex = framesRef.current.indexOf(frame);
+    ctx.font = "16px Inter, sans-serif";
+    if (frame.ballPixel && isBallEdited(corrections, frameIndex)) {
+      const [x, y, radius] = frame.ballPixel;
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = "#ffcf64";
+      ctx.fillStyle = "#ffcf64";
+      ctx.beginPath();
+      ctx.arc(x, y, radius + 6, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.fillText("edited", x + radius + 8, y + radius + 16);
+    }
+    if (corrections?.clearedKeypoints.includes(frameIndex)) {
+      ctx.fillStyle = "#ffcf64";
+      ctx.fillText("Keypoints cleared", 16, 28);
+    }
+
+    // Everyone but the bowler is drawn faintly, so a wrong pick is easy to spot.
+    ctx.fillStyle = "rgba(200, 200, 210, 0.45)";
+    (frame.people ?? []).forEach((pose) => {
+      if (pose === frame.keypoints) return;
+      pose.forEach((point) => {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 4, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    });
+
     ctx.lineWidth = 4;
     ctx.strokeStyle = "rgba(110, 140, 255, 0.8)";
     ctx.fillStyle = "rgba(110, 140, 255, 0.8)";
@@ -319,11 +1187,15 @@ const VideoAnalyzer = ({
     });
 
     if (frame.ballPosition) {
-      const videoX = (frame.ballPosition[0] / 3.6 + 0.5) * canvas.width;
-      const videoY = (1 - frame.ballPosition[1] / 2.6) * canvas.height;
+      const [videoX, videoY] = activeCalibration
+        ? projectToImage(activeCalibration, frame.ballPosition)
+        : [
+            (frame.ballPosition[0] / 3.6 + 0.5) * canvas.width,
+            (1 - frame.ballPosition[1] / 2.6) * canvas.height
+          ];
       ctx.beginPath();
       ctx.arc(videoX, videoY, 8, 0, Math.PI * 2);
-      ctx.fillStyle = "rgba(255, 133, 103, 0.95)";
+      ctx.fillStyle = `rgba(255, 133, 103, ${0.35 + frame.ballConfidence * 0.6})`;
       ctx.fill();
       ctx.font = "16px Inter, sans-serif";
       ctx.fillText(
@@ -336,59 +1208,457 @@ const VideoAnalyzer = ({
 
   useEffect(() => {
     drawOverlay(selectedFrame);
-  }, [selectedFrame, drawOverlay]);
+    const ctx = overlayRef.current?.getContext("2d");
+    if (creasePoints && ctx) {
+      ctx.fillStyle = "#ffcf64";
+      creasePoints.forEach(([x, y]) => {
+        ctx.beginPath();
+        ctx.arc(x, y, 6, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+    if (!calibrating || !ctx) return;
+    ctx.font = "14px Inter, sans-serif";
+    correspondences.forEach((entry) => {
+      const [x, y] = entry.pixel;
+      ctx.strokeStyle = entry.landmarkId === activeLandmark ? "#ffcf64" : "#7dffb3";
+      ctx.fillStyle = ctx.strokeStyle;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(x - 10, y);
+      ctx.lineTo(x + 10, y);
+      ctx.moveTo(x, y - 10);
+      ctx.lineTo(x, y + 10);
+      ctx.stroke();
+      ctx.fillText(
+        String(PITCH_LANDMARKS.findIndex((landmark) => landmark.id === entry.landmarkId) + 1),
+        x + 8,
+        y - 8
+      );
+    });
+  }, [
+    selectedFrame,
+    drawOverlay,
+    calibration,
+    calibrating,
+    correspondences,
+    activeLandmark,
+    creasePoints
+  ]);
 
-  const handleFile = useCallback(
-    async (file: File) => {
-      onStatusChange("loading-model");
+  const showAngle = useCallback(
+    (source: CameraAngle[], index: number, frameIndex = 0) => {
+      const angle = source[index];
+      calibrationRef.current = angle?.calibration ?? null;
+      creaseRef.current = angle?.creaseLine ?? null;
+      correctionsRef.current = index === 0 ? (angle?.corrections ?? null) : null;
+      framesRef.current =
+        index === 0 || !angle
+          ? analysisFramesRef.current
+          : placeBall(angle.frames, angle.frameSize, angle.calibration);
+      drawOverlay(framesRef.current[frameIndex]);
+    },
+    [drawOverlay]
+  );
+
+  // Every change to the clips, their calibration or their sync offsets re-runs the
+  // geometry and physics on the stored samples; pose inference is never repeated.
+  const updateAngles = useCallback(
+    (next: CameraAngle[], index: number, frameIndex = 0) => {
+      anglesRef.current = next;
+      setAngles(next);
+      setActiveAngle(index);
+      refineRef.current?.abort();
+      if (!next.length) return;
+      const base = analyzeAngles(next);
+      // Edits that leave what a video pass reads unchanged reuse its last result.
+      const stillKey = JSON.stringify([next[0].url, base.frontFoot]);
+      const { releaseFrame, pitchFrame } = base.keyMoments;
+      const seamKey = JSON.stringify([
+        next[0].url,
+        base.frames
+          .slice(releaseFrame, pitchFrame + 1)
+          .map((frame) => [frame.time, frame.ballPixel, frame.ballConfidence])
+      ]);
+      const cached = refinedRef.current;
+      const reuseStill = cached?.stillKey === stillKey;
+      const reuseSeam = cached?.seamKey === seamKey;
+      const analysis = withRefinements(
+        base,
+        reuseStill ? (cached?.still ?? null) : null,
+        reuseSeam ? (cached?.seam ?? null) : null
+      );
+      analysisFramesRef.current = analysis.frames;
+      setAnalysis(analysis);
+      showAngle(next, index, frameIndex);
+      const clip = {
+        key: next[0].clipKey,
+        name: next[0].label,
+        angles: next.map(({ url, ...angle }) => angle)
+      };
+      onResult(analysis, clip);
+      onSeek(frameIndex);
+
+      if (reuseStill && reuseSeam) return;
+      // The landing still and the seam both need the video decoded again, one after the other.
+      const { frontFoot } = base;
+      const controller = new AbortController();
+      refineRef.current = controller;
+      const refine = async () => {
+        const still = reuseStill
+          ? (cached?.still ?? null)
+          : frontFoot
+            ? await renderLandingStill(
+                next[0].url,
+                base.frames[frontFoot.landingFrame].time,
+                frontFoot,
+                controller.signal
+              )
+            : null;
+        if (controller.signal.aborted) return;
+        const seam = reuseSeam
+          ? (cached?.seam ?? null)
+          : await measureSeam(
+              next[0].url,
+              base.frames,
+              releaseFrame,
+              pitchFrame,
+              controller.signal
+            );
+        // Skip results for clips that have since been replaced or re-analysed.
+        if (controller.signal.aborted) return;
+        refineRef.current = null;
+        refinedRef.current = { stillKey, still, seamKey, seam };
+        if (!still && !seam) return;
+        const refined = withRefinements(base, still, seam);
+        setAnalysis(refined);
+        onRefined(refined, clip);
+      };
+      refine();
+    },
+    [onRefined, onResult, onSeek, showAngle]
+  );
+
+  useEffect(() => {
+    if (!restore) return;
+    // Imported deliveries come without their video, so only the stored analysis is shown.
+    const shown = restore.angles?.length
+      ? restore.id === anglesRef.current[0]?.clipKey
+      : !anglesRef.current.length && restore.analysis.frames === analysisFramesRef.current;
+    if (shown) return;
+    refineRef.current?.abort();
+    anglesRef.current.forEach((angle) => URL.revokeObjectURL(angle.url));
+    const next = (restore.angles ?? []).map((angle) => ({
+      ...angle,
+      url: URL.createObjectURL(angle.file)
+    }));
+    if (!next.length && videoRef.current) {
+      videoRef.current.removeAttribute("src");
+      videoRef.current.load();
+    }
+    anglesRef.current = next;
+    setAngles(next);
+    setActiveAngle(0);
+    setCalibrating(false);
+    setCreasePoints(null);
+    setEditing(false);
+    setPickingBowler(false);
+    setError(null);
+    setCorrespondences(next[0]?.calibration?.correspondences ?? []);
+    analysisFramesRef.current = restore.analysis.frames;
+    setAnalysis(restore.analysis);
+    showAngle(next, 0);
+  }, [restore, showAngle]);
+
+  const renderPip = useMemo(() => {
+    if (!getViewerCanvas) return undefined;
+    return async (frameIndex: number) => {
+      onSeek(frameIndex);
+      // Give the 3D view two paints to pick up the new key frame.
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      return getViewerCanvas();
+    };
+  }, [getViewerCanvas, onSeek]);
+
+  const selectAngle = useCallback(
+    (index: number) => {
+      setActiveAngle(index);
+      setCalibrating(false);
+      setCreasePoints(null);
+      setEditing(false);
+      setPickingBowler(false);
+      setCorrespondences(anglesRef.current[index]?.calibration?.correspondences ?? []);
+      showAngle(anglesRef.current, index);
+    },
+    [showAngle]
+  );
+
+  const applyCalibration = useCallback(
+    (next: CameraCalibration | null) => {
+      const angle = anglesRef.current[activeAngle];
+      if (!angle) return;
+      setCalibrating(false);
+      saveCalibration(angle.clipKey, next);
+      updateAngles(
+        anglesRef.current.map((entry, idx) =>
+          idx === activeAngle ? { ...entry, calibration: next } : entry
+        ),
+        activeAngle
+      );
+    },
+    [activeAngle, updateAngles]
+  );
+
+  const applyCreaseLine = useCallback(
+    (line: PixelLine | null) => {
+      setCreasePoints(null);
+      updateAngles(
+        anglesRef.current.map((entry, idx) => (idx === 0 ? { ...entry, creaseLine: line } : entry)),
+        0
+      );
+    },
+    [updateAngles]
+  );
+
+  const applyBowler = useCallback(
+    (track: number | null) => {
+      setPickingBowler(false);
+      updateAngles(
+        anglesRef.current.map((entry, idx) =>
+          idx === 0 ? { ...entry, bowlerTrack: track } : entry
+        ),
+        0,
+        currentKeyFrame
+      );
+    },
+    [currentKeyFrame, updateAngles]
+  );
+
+  // Edits stay on the frame being worked on rather than jumping back to the start.
+  const applyCorrections = useCallback(
+    (next: AnalysisCorrections) => {
+      updateAngles(
+        anglesRef.current.map((entry, idx) =>
+          idx === 0 ? { ...entry, corrections: next } : entry
+        ),
+        0,
+        currentKeyFrame
+      );
+    },
+    [currentKeyFrame, updateAngles]
+  );
+
+  const solveCalibration = useCallback(() => {
+    const angle = anglesRef.current[activeAngle];
+    if (!angle) return;
+    const solved = calibrateCamera(correspondences, angle.frameSize);
+    if (!solved) {
+      setError("Calibration failed. Mark at least four landmarks that do not lie on one line.");
+      return;
+    }
+    setError(null);
+    applyCalibration(solved);
+  }, [activeAngle, applyCalibration, correspondences]);
+
+  const setAngleOffset = useCallback(
+    (index: number, offset: number | null) => {
+      if (offset == null || !Number.isFinite(offset)) {
+        setError("Could not find a common cue to align this angle. Set the offset manually.");
+        return;
+      }
       setError(null);
+      updateAngles(
+        anglesRef.current.map((entry, idx) => (idx === index ? { ...entry, offset } : entry)),
+        index
+      );
+    },
+    [updateAngles]
+  );
+
+  const getSampler = useCallback(() => {
+    if (!samplerRef.current) {
+      samplerRef.current = createPoseSampler();
+      samplerRef.current.configure(detectorRef.current.settings, detectorRef.current.fixture);
+    }
+    return samplerRef.current;
+  }, []);
+
+  // The choice applies from the next clip; clips already analysed keep the model they used.
+  const changeDetector = useCallback(
+    (settings: DetectorSettings, fixtureFrames: PoseFixtureFrame[] | null) => {
+      detectorRef.current = { settings, fixture: fixtureFrames };
+      setDetectorSettings(settings);
+      samplerRef.current?.configure(settings, fixtureFrames);
+      saveDetectorSettings(settings);
+    },
+    []
+  );
+
+  // Stored settings are read after mount so the server render matches the first paint.
+  useEffect(() => {
+    const stored = loadDetectorSettings();
+    detectorRef.current = { settings: stored, fixture: null };
+    setDetectorSettings(stored);
+    samplerRef.current?.configure(stored, null);
+  }, []);
+
+  const processClip = useCallback(
+    async (
+      file: File,
+      signal: AbortSignal,
+      onFrames: (done: number, total: number, partial: () => CameraAngle) => void
+    ): Promise<CameraAngle> => {
+      const url = URL.createObjectURL(file);
       try {
-        const url = URL.createObjectURL(file);
-        setVideoUrl(url);
         await new Promise<void>((resolve, reject) => {
           const video = videoRef.current;
           if (!video) {
             reject(new Error("Video element missing."));
             return;
           }
-          const handleLoadedMetadata = () => {
+          const settle = (err: Error | null) => {
+            clearTimeout(timer);
             video.removeEventListener("loadedmetadata", handleLoadedMetadata);
-            resolve();
+            video.removeEventListener("error", handleError);
+            signal.removeEventListener("abort", handleAbort);
+            if (err) reject(err);
+            else resolve();
           };
+          const handleLoadedMetadata = () => settle(null);
+          const handleError = () =>
+            settle(new Error("This clip could not be read. Try a different video file."));
+          const handleAbort = () => settle(abortError());
+          const timer = setTimeout(
+            () => settle(new Error("The clip took too long to open. Try a different video file.")),
+            METADATA_TIMEOUT_MS
+          );
           video.addEventListener("loadedmetadata", handleLoadedMetadata);
+          video.addEventListener("error", handleError);
+          signal.addEventListener("abort", handleAbort);
           video.src = url;
           video.load();
         });
 
-        const detector = await loadDetector();
+        const sampler = getSampler();
+        const detector = await sampler.load();
+        if (signal.aborted) throw abortError();
         onStatusChange("processing");
         const video = videoRef.current;
         if (!video) throw new Error("Video element not ready.");
         video.pause();
         video.currentTime = 0;
-        const frames = await samplePosesFromVideo(video, detector);
-        const analysis = enrichFrames(frames);
-        framesRef.current = analysis.frames;
-        drawOverlay(analysis.frames[0]);
+
+        const frameSize: [number, number] = [video.videoWidth || 1280, video.videoHeight || 720];
+        const clipKey = clipStorageKey(file);
+        const stored = loadCalibration(clipKey);
+        const angle: CameraAngle = {
+          clipKey,
+          label: file.name,
+          file,
+          url,
+          frameSize,
+          frames: [],
+          motion: [],
+          calibration:
+            stored && stored.imageSize[0] === frameSize[0] && stored.imageSize[1] === frameSize[1]
+              ? stored
+              : null,
+          creaseLine: null,
+          corrections: NO_CORRECTIONS,
+          detector,
+          bowlerTrack: null,
+          offset: 0,
+          audioOnset: null
+        };
+        const [sampled, audioOnset] = await Promise.all([
+          samplePosesFromVideo(video, sampler, signal, (done, total, snapshot) =>
+            onFrames(done, total, () => ({ ...angle, frames: snapshot() }))
+          ),
+          detectAudioOnset(file)
+        ]);
+        return { ...angle, frames: sampled.frames, motion: sampled.motion, audioOnset };
+      } catch (err) {
+        URL.revokeObjectURL(url);
+        throw err;
+      }
+    },
+    [getSampler, onStatusChange]
+  );
+
+  const handleFile = useCallback(
+    async (file: File, mode: "replace" | "add") => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      onStatusChange("loading-model");
+      setError(null);
+      setCalibrating(false);
+      setCreasePoints(null);
+      setEditing(false);
+      setPickingBowler(false);
+      setProgress(null);
+      let previewed = 0;
+      try {
+        const angle = await processClip(file, controller.signal, (done, total, partial) => {
+          setProgress({ done, total });
+          // Locking and re-analysing the partial clip is too costly for every frame.
+          if (mode !== "replace" || !onPreview) return;
+          if (done - previewed < PREVIEW_EVERY_FRAMES) return;
+          previewed = done;
+          onPreview(analyzeAngles([partial()]));
+        });
+        const existing = mode === "add" ? anglesRef.current : [];
+        if (mode === "replace") {
+          anglesRef.current.forEach((entry) => URL.revokeObjectURL(entry.url));
+        }
+        const next = [...existing, angle];
+        setCorrespondences(angle.calibration?.correspondences ?? []);
         onStatusChange("completed");
-        onResult(analysis);
-        onSeek(0);
+        updateAngles(next, next.length - 1);
       } catch (err) {
+        // A newer clip has taken over; it owns the status now.
+        if (abortRef.current !== controller) return;
+        // The clip that failed is still loaded; put back the one the analysis belongs to.
+        const video = videoRef.current;
+        const previous = anglesRef.current[activeAngle];
+        if (video && previous) video.src = previous.url;
+        if ((err as Error).name === "AbortError") {
+          onStatusChange(anglesRef.current.length ? "completed" : "idle");
+          return;
+        }
         console.error(err);
         setError(
           err instanceof Error ? err.message : "Analysis failed. Please try a different clip."
         );
         onStatusChange("error");
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setProgress(null);
+          onPreview?.(null);
+        }
       }
     },
-    [drawOverlay, onResult, onSeek, onStatusChange]
+    [activeAngle, onPreview, onStatusChange, processClip, updateAngles]
   );
 
+  const handleLiveDelivery = useCallback(
+    (file: File) => handleFile(file, "replace"),
+    [handleFile]
+  );
+
+  const placedLandmarks = new Set(correspondences.map((entry) => entry.landmarkId));
+  const corrections = angles[0]?.corrections ?? NO_CORRECTIONS;
+  const picking = calibrating || Boolean(creasePoints) || editing || pickingBowler;
+  const bowlerLock = analysis?.settings.bowler ?? null;
+
   return (
     <div className="panel">
       <h3>Video Intake</h3>
       <p>
-        Import a side-on or front-on bowling clip (MP4 or MOV). Models run in-browser using
+        Import a side-on or front-on bowling clip (MP4 or MOV), or go live from a camera to
+        have each delivery cut out and analysed as it is bowled. Models run in-browser using
         TensorFlow.js, and no footage leaves your device.
       </p>
 
@@ -401,7 +1671,7 @@ const VideoAnalyzer = ({
           onChange={(event) => {
             const file = event.target.files?.[0];
             if (file) {
-              handleFile(file);
+              handleFile(file, "replace");
             }
           }}
         />
@@ -417,13 +1687,47 @@ const VideoAnalyzer = ({
                   ? "Analysis complete"
                   : "Error"}
         </span>
+        {(status === "loading-model" || status === "processing") && (
+          <div className="sampling-progress">
+            {progress && (
+              <>
+                <progress value={progress.done} max={progress.total} />
+                <span>
+                  {progress.done} / {progress.total} frames
+                </span>
+              </>
+            )}
+            <button type="button" className="chip" onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </button>
+          </div>
+        )}
         {error && <span style={{ color: "#ff8a8a" }}>{error}</span>}
       </div>
 
+      <DetectorSettingsPanel
+        settings={detectorSettings}
+        fixtureName={fixture?.name ?? null}
+        disabled={status === "loading-model" || status === "processing"}
+        onChange={(settings) =>
+          changeDetector(settings, settings.model === "fixture" ? (fixture?.frames ?? null) : null)
+        }
+        onFixture={(name, frames) => {
+          setFixture({ name, frames });
+          changeDetector(detectorRef.current.settings, frames);
+        }}
+      />
+
+      <LiveCapture
+        getSampler={getSampler}
+        busy={status === "loading-model" || status === "processing"}
+        onDelivery={handleLiveDelivery}
+      />
+
       <div className="video-wrapper" style={{ position: "relative" }}>
         <video
           ref={videoRef}
-          src={videoUrl ?? ""}
+          src={activeClip?.url ?? ""}
           controls
           style={{ width: "100%", height: "100%", objectFit: "cover" }}
           onTimeUpdate={(evt) => {
@@ -438,7 +1742,9 @@ const VideoAnalyzer = ({
               0
             );
             drawOverlay(framesRef.current[nearestIdx]);
-            onSeek(nearestIdx);
+            if (activeAngle === 0) {
+              onSeek(nearestIdx);
+            }
           }}
         />
         <canvas
@@ -446,12 +1752,333 @@ const VideoAnalyzer = ({
           style={{
             position: "absolute",
             inset: 0,
-            pointerEvents: "none",
+            pointerEvents: picking ? "auto" : "none",
+            cursor: picking ? "crosshair" : undefined,
             width: "100%",
             height: "100%"
           }}
+          onClick={(evt) => {
+            if (!picking) return;
+            const canvas = evt.currentTarget;
+            const rect = canvas.getBoundingClientRect();
+            const pixel: [number, number] = [
+              ((evt.clientX - rect.left) / rect.width) * canvas.width,
+              ((evt.clientY - rect.top) / rect.height) * canvas.height
+            ];
+            if (creasePoints) {
+              if (creasePoints.length) applyCreaseLine([creasePoints[0], pixel]);
+              else setCreasePoints([pixel]);
+              return;
+            }
+            if (pickingBowler) {
+              const frames = framesRef.current;
+              const track = trackAtPixel(
+                trackPeople(frames.map((frame) => frame.people ?? [frame.keypoints])),
+                currentKeyFrame,
+                pixel
+              );
+              if (track == null) {
+                setError("Nobody was detected there. Click on the bowler's body.");
+                return;
+              }
+              setError(null);
+              applyBowler(track);
+              return;
+            }
+            if (editing) {
+              applyCorrections(setBallPixel(corrections, currentKeyFrame, pixel));
+              return;
+            }
+            setCorrespondences((prev) => [
+              ...prev.filter((entry) => entry.landmarkId !== activeLandmark),
+              { landmarkId: activeLandmark, pixel }
+            ]);
+            const next =
+              PITCH_LANDMARKS[
+                PITCH_LANDMARKS.findIndex((landmark) => landmark.id === activeLandmark) + 1
+              ];
+            if (next) setActiveLandmark(next.id);
+          }}
         />
       </div>
+
+      {editing && analysis && (
+        <KeyMomentTrack
+          frames={analysis.frames}
+          keyMoments={analysis.keyMoments}
+          edited={corrections.keyMoments}
+          currentKeyFrame={currentKeyFrame}
+          onSeek={onSeek}
+          onMove={(name, frameIndex) =>
+            applyCorrections(setKeyMoment(corrections, analysis.keyMoments, name, frameIndex))
+          }
+        />
+      )}
+
+      <div className="calibration-bar">
+        <div className="chip-row">
+          <button
+            type="button"
+            className="chip"
+            disabled={!activeClip || Boolean(creasePoints) || editing || pickingBowler}
+            onClick={() => setCalibrating((value) => !value)}
+          >
+            {calibrating ? "Cancel Calibration" : "Calibrate Camera"}
+          </button>
+          {calibration && (
+            <span className="chip">
+              Calibrated • {calibration.reprojectionError.toFixed(1)} px reprojection error
+            </span>
+          )}
+          {calibration && !calibrating && (
+            <button type="button" className="chip" onClick={() => applyCalibration(null)}>
+              Clear Calibration
+            </button>
+          )}
+          {activeAngle === 0 && (
+            <button
+              type="button"
+              className="chip"
+              disabled={!activeClip || calibrating || editing || pickingBowler}
+              onClick={() => setCreasePoints((points) => (points ? null : []))}
+            >
+              {creasePoints ? "Cancel Crease Marking" : "Mark Popping Crease"}
+            </button>
+          )}
+          {activeAngle === 0 && activeClip?.creaseLine && !creasePoints && (
+            <button type="button" className="chip" onClick={() => applyCreaseLine(null)}>
+              Clear Crease
+            </button>
+          )}
+          {activeAngle === 0 && (
+            <button
+              type="button"
+              className="chip"
+              disabled={!analysis || calibrating || Boolean(creasePoints) || pickingBowler}
+              onClick={() => setEditing((value) => !value)}
+            >
+              {editing ? "Done Editing" : "Edit Corrections"}
+            </button>
+          )}
+          {activeAngle === 0 && bowlerLock && (
+            <button
+              type="button"
+              className="chip"
+              disabled={calibrating || Boolean(creasePoints) || editing}
+              onClick={() => setPickingBowler((value) => !value)}
+            >
+              {pickingBowler ? "Cancel Bowler Pick" : "Select Bowler"}
+            </button>
+          )}
+          {activeAngle === 0 && bowlerLock?.manual && !pickingBowler && (
+            <button type="button" className="chip" onClick={() => applyBowler(null)}>
+              Pick Bowler Automatically
+            </button>
+          )}
+          {activeAngle === 0 && bowlerLock && (
+            <span className="chip">
+              Bowler • person {bowlerLock.track + 1} of {bowlerLock.tracks}
+              {bowlerLock.manual ? " (picked by hand)" : " (from arm swing)"}
+            </span>
+          )}
+        </div>
+        {pickingBowler && (
+          <p>
+            Pause on a frame where the bowler is clear of the umpire and batter, then click on
+            them. Everyone else is ignored from then on.
+          </p>
+        )}
+        {editing && (
+          <>
+            <p>
+              Step to a frame and click the ball to place it by hand, or drag the Release, Pitch
+              and Impact handles to fix the key moments. Everything is recomputed from the edits.
+            </p>
+            <div className="chip-row">
+              <button
+                type="button"
+                className="chip"
+                disabled={currentKeyFrame <= 0}
+                onClick={() => onSeek(currentKeyFrame - 1)}
+              >
+                ◀ Frame
+              </button>
+              <span className="chip">
+                Frame {currentKeyFrame + 1} / {analysis?.frames.length ?? 0}
+              </span>
+              <button
+                type="button"
+                className="chip"
+                disabled={currentKeyFrame >= (analysis?.frames.length ?? 0) - 1}
+                onClick={() => onSeek(currentKeyFrame + 1)}
+              >
+                Frame ▶
+              </button>
+              <button
+                type="button"
+                className="chip"
+                onClick={() => applyCorrections(setBallPixel(corrections, currentKeyFrame, null))}
+              >
+                Remove Ball
+              </button>
+              <button
+                type="button"
+                className="chip"
+                onClick={() => applyCorrections(toggleKeypoints(corrections, currentKeyFrame))}
+              >
+                {corrections.clearedKeypoints.includes(currentKeyFrame)
+                  ? "Restore Keypoints"
+                  : "Clear Keypoints"}
+              </button>
+              <button
+                type="button"
+                className="chip"
+                disabled={!hasCorrections(corrections)}
+                onClick={() => applyCorrections(NO_CORRECTIONS)}
+              >
+                Reset Corrections
+              </button>
+            </div>
+          </>
+        )}
+        {creasePoints && (
+          <p>
+            Pause on the front-foot landing and click both ends of the bowler&apos;s popping
+            crease. A marked line is used for the no-ball check instead of the calibration.
+          </p>
+        )}
+        {calibrating && (
+          <>
+            <p>
+              Pause on a frame where the pitch markings are visible, pick a landmark, then click
+              it on the video. Four or more landmarks are needed; spread them across the pitch.
+            </p>
+            <div className="chip-row">
+              <select
+                className="chip"
+                value={activeLandmark}
+                onChange={(evt) => setActiveLandmark(evt.target.value)}
+              >
+                {PITCH_LANDMARKS.map((landmark, idx) => (
+                  <option key={landmark.id} value={landmark.id}>
+                    {placedLandmarks.has(landmark.id) ? "✓ " : ""}
+                    {idx + 1}. {landmark.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="chip"
+                disabled={correspondences.length < MIN_CORRESPONDENCES}
+                onClick={solveCalibration}
+              >
+                Apply Calibration ({correspondences.length}/{MIN_CORRESPONDENCES})
+              </button>
+              <button type="button" className="chip" onClick={() => setCorrespondences([])}>
+                Reset Points
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {angles.length > 0 && (
+        <ReplayExportPanel
+          source={angles[0].url}
+          clipName={angles[0].label}
+          analysis={analysis}
+          calibration={angles[0].calibration}
+          pip={renderPip}
+        />
+      )}
+
+      {angles.length > 0 && (
+        <div className="calibration-bar">
+          <div className="chip-row">
+            {angles.map((angle, idx) => (
+              <button
+                key={`${angle.clipKey}-${idx}`}
+                type="button"
+                className={`chip${idx === activeAngle ? " active" : ""}`}
+                onClick={() => selectAngle(idx)}
+              >
+                {idx === 0 ? "Primary" : `Camera ${idx + 1}`} • {angle.label}
+                {angle.calibration ? " ✓" : ""}
+              </button>
+            ))}
+            <label htmlFor="angle-upload" className="chip">
+              Add Camera Angle
+            </label>
+            <input
+              id="angle-upload"
+              type="file"
+              accept="video/mp4,video/quicktime,video/webm"
+              style={{ display: "none" }}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  handleFile(file, "add");
+                }
+                event.target.value = "";
+              }}
+            />
+          </div>
+          {activeAngle > 0 && activeClip && (
+            <div className="chip-row">
+              {/* Committed on blur or Enter: each offset re-runs the fusion and video passes. */}
+              <label className="chip">
+                Offset (ms){" "}
+                <input
+                  key={`${activeClip.clipKey}-${activeClip.offset}`}
+                  type="number"
+                  step={1}
+                  defaultValue={Math.round(activeClip.offset * 1000)}
+                  onBlur={(evt) => {
+                    const offset = Number(evt.target.value) / 1000;
+                    if (evt.target.value === "" || offset === activeClip.offset) return;
+                    setAngleOffset(activeAngle, offset);
+                  }}
+                  onKeyDown={(evt) => {
+                    if (evt.key === "Enter") evt.currentTarget.blur();
+                  }}
+                />
+              </label>
+              <button
+                type="button"
+                className="chip"
+                onClick={() =>
+                  setAngleOffset(
+                    activeAngle,
+                    estimateOffsetFromMotion(angles[0].motion, activeClip.motion)
+                  )
+                }
+              >
+                Align by Motion
+              </button>
+              <button
+                type="button"
+                className="chip"
+                disabled={angles[0].audioOnset == null || activeClip.audioOnset == null}
+                onClick={() =>
+                  setAngleOffset(
+                    activeAngle,
+                    (angles[0].audioOnset ?? 0) - (activeClip.audioOnset ?? 0)
+                  )
+                }
+              >
+                Align by Audio
+              </button>
+            </div>
+          )}
+          <span style={{ color: "#8f9bdb", fontSize: "0.85rem" }}>
+            {angles.length < 2
+              ? "Add synchronized clips from other fixed cameras to triangulate true depth."
+              : calibratedAngles >= 2 && angles[0].calibration
+                ? `Triangulating from ${calibratedAngles} calibrated views.`
+                : "Calibrate the primary and at least one more angle to triangulate."}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,394 @@
+import type { AnalysisResult } from "../components/VideoAnalyzer";
+import { POSE_MODELS } from "./poseModels";
+import type { Delivery } from "./session";
+
+export const ANALYSIS_FILE_FORMAT = "hawkeye-analysis";
+export const ANALYSIS_FILE_VERSION = 1;
+
+export interface AnalysisFile {
+  format: typeof ANALYSIS_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  clip: {
+    key: string;
+    name: string;
+    recordedAt: number;
+    bowler: string;
+    // Profiles live on one device, so the link only holds when re-imported there.
+    profileId?: string | null;
+    notes: string;
+  };
+  analysis: AnalysisResult;
+}
+
+export type AnalysisFileResult =
+  | { ok: true; delivery: Delivery }
+  | { ok: false; errors: string[] };
+
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const MAX_REPORTED_ERRORS = 8;
+const FRAME_PHASES = ["Run-Up", "Load-Up", "Release", "Pitch", "Impact", "Follow-Through"];
+
+const describe = (value: unknown) => {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  return Array.isArray(value) ? "an array" : `a ${typeof value}`;
+};
+
+const isNumber: Check = (value, path, errors) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push(`${path} must be a finite number, found ${describe(value)}`);
+  }
+};
+
+const isString: Check = (value, path, errors) => {
+  if (typeof value !== "string") errors.push(`${path} must be a string, found ${describe(value)}`);
+};
+
+const isBoolean: Check = (value, path, errors) => {
+  if (typeof value !== "boolean") {
+    errors.push(`${path} must be true or false, found ${describe(value)}`);
+  }
+};
+
+const optional =
+  (check: Check): Check =>
+  (value, path, errors) => {
+    if (value !== undefined) check(value, path, errors);
+  };
+
+const nullable =
+  (check: Check): Check =>
+  (value, path, errors) => {
+    if (value !== null) check(value, path, errors);
+  };
+
+const oneOf =
+  (options: string[]): Check =>
+  (value, path, errors) => {
+    if (typeof value !== "string" || !options.includes(value)) {
+      errors.push(`${path} must be one of ${options.join(", ")}`);
+    }
+  };
+
+const arrayOf =
+  (check: Check, length?: number): Check =>
+  (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} must be an array, found ${describe(value)}`);
+      return;
+    }
+    if (length != null && value.length !== length) {
+      errors.push(`${path} must have ${length} entries, found ${value.length}`);
+      return;
+    }
+    value.forEach((entry, idx) => check(entry, `${path}[${idx}]`, errors));
+  };
+
+const shape =
+  (fields: Record<string, Check>): Check =>
+  (value, path, errors) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${path} must be an object, found ${describe(value)}`);
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    Object.entries(fields).forEach(([key, check]) => check(record[key], `${path}.${key}`, errors));
+  };
+
+// Objects keyed by frame index, as JSON writes numeric keys.
+const frameRecordOf =
+  (check: Check): Check =>
+  (value, path, errors) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${path} must be an object, found ${describe(value)}`);
+      return;
+    }
+    Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+      if (!/^\d+$/.test(key)) errors.push(`${path}.${key} must be keyed by a frame index`);
+      check(entry, `${path}.${key}`, errors);
+    });
+  };
+
+const vec3 = arrayOf(isNumber, 3);
+
+const metricConfidence = optional(
+  shape({
+    provenance: oneOf(["measured", "estimated", "defaulted"]),
+    low: nullable(isNumber),
+    high: nullable(isNumber),
+    reason: nullable(isString)
+  })
+);
+
+const keypoint = shape({
+  x: isNumber,
+  y: isNumber,
+  z: optional(isNumber),
+  score: optional(isNumber),
+  name: optional(isString)
+});
+
+const frame = shape({
+  time: isNumber,
+  phase: oneOf(FRAME_PHASES),
+  ballPosition: vec3,
+  ballPixel: nullable(vec3),
+  ballConfidence: isNumber,
+  ballError: nullable(isNumber),
+  seamAngle: isNumber,
+  speedKph: isNumber,
+  releaseHeight: isNumber,
+  keypoints: arrayOf(keypoint),
+  people: optional(arrayOf(arrayOf(keypoint)))
+});
+
+const calibration = shape({
+  imageSize: arrayOf(isNumber, 2),
+  correspondences: arrayOf(shape({ landmarkId: isString, pixel: arrayOf(isNumber, 2) })),
+  homography: arrayOf(isNumber, 9),
+  focalLength: isNumber,
+  rotation: arrayOf(isNumber, 9),
+  translation: vec3,
+  cameraPosition: vec3,
+  reprojectionError: isNumber
+});
+
+const analysisSchema = shape({
+  frames: arrayOf(frame),
+  trajectory: arrayOf(vec3),
+  trajectoryError: nullable(arrayOf(isNumber)),
+  keyMoments: shape({
+    releaseFrame: isNumber,
+    pitchFrame: isNumber,
+    impactFrame: isNumber,
+    landingFrame: optional(nullable(isNumber))
+  }),
+  reconstruction: nullable(
+    shape({
+      pitchingPoint: nullable(vec3),
+      bounceHeight: isNumber,
+      reachesStumps: optional(isBoolean),
+      stumpsHeight: isNumber,
+      stumpsLine: isNumber,
+      fitResidual: isNumber,
+      assumedDepth: optional(isBoolean)
+    })
+  ),
+  calibration: nullable(calibration),
+  fusion: nullable(
+    shape({
+      cameras: arrayOf(shape({ label: isString, position: vec3 })),
+      rays: arrayOf(arrayOf(nullable(shape({ origin: vec3, direction: vec3 }))))
+    })
+  ),
+  // Added after version 1 shipped, so older exports may leave it out.
+  frontFoot: optional(
+    nullable(
+      shape({
+        landingFrame: isNumber,
+        foot: oneOf(["left", "right"]),
+        source: oneOf(["calibration", "marked"]),
+        creaseLine: arrayOf(arrayOf(isNumber, 2), 2),
+        heel: arrayOf(isNumber, 2),
+        margin: isNumber,
+        unit: oneOf(["m", "px"]),
+        legal: isBoolean,
+        still: nullable(isString)
+      })
+    )
+  ),
+  corrections: optional(
+    nullable(
+      shape({
+        keyMoments: shape({
+          releaseFrame: optional(isNumber),
+          pitchFrame: optional(isNumber),
+          impactFrame: optional(isNumber)
+        }),
+        ballPixels: frameRecordOf(nullable(arrayOf(isNumber, 2))),
+        clearedKeypoints: arrayOf(isNumber)
+      })
+    )
+  ),
+  confidence: optional(
+    nullable(
+      shape({
+        releaseSpeedKph: metricConfidence,
+        seamAngle: metricConfidence,
+        releaseHeight: metricConfidence,
+        predictedImpactMeters: metricConfidence,
+        pitchingDistanceMeters: metricConfidence,
+        runupVelocityKph: metricConfidence,
+        swingCm: metricConfidence,
+        deviationDegrees: metricConfidence,
+        seamOrientation: metricConfidence,
+        spinRpm: metricConfidence
+      })
+    )
+  ),
+  summary: shape({
+    releaseSpeedKph: isNumber,
+    seamAngle: isNumber,
+    releaseHeight: isNumber,
+    predictedImpactMeters: isNumber,
+    pitchingDistanceMeters: optional(nullable(isNumber)),
+    runupVelocityKph: isNumber,
+    swingCm: optional(nullable(isNumber)),
+    deviationDegrees: optional(nullable(isNumber)),
+    seamOrientation: optional(nullable(isNumber)),
+    spinRpm: optional(nullable(isNumber))
+  }),
+  settings: shape({
+    sampleFrames: isNumber,
+    seamSmoothing: isNumber,
+    cameras: arrayOf(shape({ label: isString, offset: isNumber, calibrated: isBoolean })),
+    bowler: optional(nullable(shape({ track: isNumber, tracks: isNumber, manual: isBoolean }))),
+    detector: optional(
+      nullable(
+        shape({
+          model: oneOf(POSE_MODELS.map((entry) => entry.id)),
+          backend: nullable(oneOf(["webgl", "wasm", "cpu"]))
+        })
+      )
+    )
+  })
+});
+
+const fileSchema = shape({
+  exportedAt: isString,
+  clip: shape({
+    key: isString,
+    name: isString,
+    recordedAt: isNumber,
+    bowler: isString,
+    profileId: optional(nullable(isString)),
+    notes: isString
+  }),
+  analysis: analysisSchema
+});
+
+export function serializeDelivery(delivery: Delivery): string {
+  const file: AnalysisFile = {
+    format: ANALYSIS_FILE_FORMAT,
+    version: ANALYSIS_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    clip: {
+      key: delivery.id,
+      name: delivery.clipName,
+      recordedAt: delivery.recordedAt,
+      bowler: delivery.bowler,
+      profileId: delivery.profileId,
+      notes: delivery.notes
+    },
+    analysis: delivery.analysis
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses and validates an exported analysis. Every problem found is reported with the path
+ * of the offending field so a hand-edited or truncated file can be fixed.
+ */
+export function parseAnalysisFile(text: string): AnalysisFileResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: [`Not valid JSON: ${(err as Error).message}`] };
+  }
+
+  const header = (data ?? {}) as Partial<AnalysisFile>;
+  if (typeof data !== "object" || header.format !== ANALYSIS_FILE_FORMAT) {
+    return { ok: false, errors: ["This is not a Hawk-Eye analysis export."] };
+  }
+  if (typeof header.version !== "number" || !Number.isInteger(header.version)) {
+    return { ok: false, errors: ["The file has no format version."] };
+  }
+  if (header.version > ANALYSIS_FILE_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `The file uses format version ${header.version}, newer than this app supports ` +
+          `(${ANALYSIS_FILE_VERSION}). Update the app to open it.`
+      ]
+    };
+  }
+  if (header.version < ANALYSIS_FILE_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `The file uses format version ${header.version}, which is out of date. ` +
+          `Re-analyse the clip to export it as version ${ANALYSIS_FILE_VERSION}.`
+      ]
+    };
+  }
+
+  const errors: string[] = [];
+  fileSchema(data, "file", errors);
+  if (!errors.length) {
+    const { frames, keyMoments, frontFoot } = (data as AnalysisFile).analysis;
+    if (!frames.length) errors.push("file.analysis.frames must contain at least one frame");
+    const indices: [string, number | null | undefined][] = [
+      ...Object.entries(keyMoments).map(
+        ([key, value]) => [`keyMoments.${key}`, value] as [string, number | null]
+      ),
+      ["frontFoot.landingFrame", frontFoot?.landingFrame]
+    ];
+    indices.forEach(([key, value]) => {
+      if (value == null) return;
+      if (!Number.isInteger(value) || value < 0 || value >= frames.length) {
+        errors.push(`file.analysis.${key} must index one of the ${frames.length} frames`);
+      }
+    });
+  }
+  if (errors.length) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      ok: false,
+      errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${extra} more`] : errors
+    };
+  }
+
+  const { clip, analysis: parsed } = data as AnalysisFile;
+  const analysis: AnalysisResult = {
+    ...parsed,
+    frames: parsed.frames.map((entry) => ({ ...entry, people: entry.people ?? [entry.keypoints] })),
+    keyMoments: { ...parsed.keyMoments, landingFrame: parsed.keyMoments.landingFrame ?? null },
+    reconstruction: parsed.reconstruction && {
+      ...parsed.reconstruction,
+      reachesStumps: parsed.reconstruction.reachesStumps ?? true,
+      assumedDepth: parsed.reconstruction.assumedDepth ?? !parsed.calibration
+    },
+    frontFoot: parsed.frontFoot ?? null,
+    corrections: parsed.corrections ?? null,
+    confidence: parsed.confidence ?? null,
+    settings: {
+      ...parsed.settings,
+      bowler: parsed.settings.bowler ?? null,
+      detector: parsed.settings.detector ?? null
+    },
+    summary: {
+      ...parsed.summary,
+      pitchingDistanceMeters: parsed.summary.pitchingDistanceMeters ?? null,
+      swingCm: parsed.summary.swingCm ?? null,
+      deviationDegrees: parsed.summary.deviationDegrees ?? null,
+      seamOrientation: parsed.summary.seamOrientation ?? null,
+      spinRpm: parsed.summary.spinRpm ?? null
+    }
+  };
+  return {
+    ok: true,
+    delivery: {
+      id: clip.key,
+      clipName: clip.name,
+      recordedAt: clip.recordedAt,
+      bowler: clip.bowler,
+      profileId: clip.profileId ?? null,
+      notes: clip.notes,
+      analysis,
+      angles: null
+    }
+  };
+}
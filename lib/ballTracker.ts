@@ -0,0 +1,230 @@
+export type BallColor = "red" | "white";
+
+export interface BallCandidate {
+  x: number;
+  y: number;
+  radius: number;
+  color: BallColor;
+  score: number;
+}
+
+export interface BallTrackPoint {
+  x: number;
+  y: number;
+  radius: number;
+  confidence: number;
+  predicted: boolean;
+}
+
+export interface BallTrackSeed {
+  frameIndex: number;
+  x: number;
+  y: number;
+}
+
+const SCAN_STRIDE = 2;
+const MOTION_THRESHOLD = 28;
+const MIN_RADIUS_RATIO = 0.002;
+const MAX_RADIUS_RATIO = 0.03;
+const MAX_CANDIDATES = 12;
+const SEED_GATE_RATIO = 0.12;
+const TRACK_GATE_RATIO = 0.18;
+const MAX_MISSED_FRAMES = 4;
+const MISS_DECAY = 0.6;
+
+function classifyPixel(r: number, g: number, b: number): BallColor | null {
+  if (r > 120 && r > g * 1.6 && r > b * 1.5) return "red";
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (min > 190 && max - min < 40) return "white";
+  return null;
+}
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+}
+
+/**
+ * Finds small, moving red or white blobs in a frame. Motion is measured against the
+ * previous sampled frame, so static whites (creases, pads, sight screens) are ignored.
+ */
+export function detectBallCandidates(
+  frame: ImageData,
+  previous: ImageData | null
+): BallCandidate[] {
+  const { width, height, data } = frame;
+  const cols = Math.floor(width / SCAN_STRIDE);
+  const rows = Math.floor(height / SCAN_STRIDE);
+  const mask = new Uint8Array(cols * rows);
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      const offset = (row * SCAN_STRIDE * width + col * SCAN_STRIDE) * 4;
+      const color = classifyPixel(data[offset], data[offset + 1], data[offset + 2]);
+      if (!color) continue;
+      if (
+        previous &&
+        previous.width === width &&
+        Math.abs(luminance(data, offset) - luminance(previous.data, offset)) < MOTION_THRESHOLD
+      ) {
+        continue;
+      }
+      mask[row * cols + col] = color === "red" ? 1 : 2;
+    }
+  }
+
+  const diagonal = Math.hypot(width, height);
+  const minRadius = diagonal * MIN_RADIUS_RATIO;
+  const maxRadius = diagonal * MAX_RADIUS_RATIO;
+  const visited = new Uint8Array(cols * rows);
+  const candidates: BallCandidate[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start += 1) {
+    if (!mask[start] || visited[start]) continue;
+    const label = mask[start];
+    let count = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let minCol = cols;
+    let maxCol = 0;
+    let minRow = rows;
+    let maxRow = 0;
+    stack.push(start);
+    visited[start] = 1;
+
+    while (stack.length) {
+      const cell = stack.pop() as number;
+      const col = cell % cols;
+      const row = (cell - col) / cols;
+      count += 1;
+      sumX += col;
+      sumY += row;
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      const neighbours = [
+        col > 0 ? cell - 1 : -1,
+        col < cols - 1 ? cell + 1 : -1,
+        row > 0 ? cell - cols : -1,
+        row < rows - 1 ? cell + cols : -1
+      ];
+      neighbours.forEach((next) => {
+        if (next < 0 || visited[next] || mask[next] !== label) return;
+        visited[next] = 1;
+        stack.push(next);
+      });
+    }
+
+    const blobWidth = (maxCol - minCol + 1) * SCAN_STRIDE;
+    const blobHeight = (maxRow - minRow + 1) * SCAN_STRIDE;
+    const radius = Math.max(blobWidth, blobHeight) / 2;
+    if (radius < minRadius || radius > maxRadius) continue;
+
+    // Motion blur stretches the ball, so allow elongated blobs but penalise them.
+    const aspect = Math.min(blobWidth, blobHeight) / Math.max(blobWidth, blobHeight);
+    const fill = (count * SCAN_STRIDE * SCAN_STRIDE) / (blobWidth * blobHeight);
+    if (aspect < 0.25 || fill < 0.35) continue;
+
+    candidates.push({
+      x: (sumX / count) * SCAN_STRIDE,
+      y: (sumY / count) * SCAN_STRIDE,
+      radius,
+      color: label === 1 ? "red" : "white",
+      score: Math.min(1, aspect * 0.6 + fill * 0.4)
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+}
+
+function nearestCandidate(
+  candidates: BallCandidate[],
+  x: number,
+  y: number,
+  gate: number
+): { candidate: BallCandidate; distance: number } | null {
+  return candidates.reduce<{ candidate: BallCandidate; distance: number } | null>(
+    (best, candidate) => {
+      const distance = Math.hypot(candidate.x - x, candidate.y - y);
+      if (distance > gate) return best;
+      if (!best || distance - candidate.score * gate * 0.1 < best.distance) {
+        return { candidate, distance };
+      }
+      return best;
+    },
+    null
+  );
+}
+
+/**
+ * Links per-frame candidates into a single track, starting from the release seed and
+ * following a constant-velocity prediction. Frames before the seed, or after the track
+ * is lost, are returned as null.
+ */
+export function trackBall(
+  candidatesByFrame: BallCandidate[][],
+  seed: BallTrackSeed,
+  frameSize: { width: number; height: number }
+): (BallTrackPoint | null)[] {
+  const diagonal = Math.hypot(frameSize.width, frameSize.height);
+  const track: (BallTrackPoint | null)[] = candidatesByFrame.map(() => null);
+
+  let position: [number, number] | null = null;
+  let velocity: [number, number] = [0, 0];
+  let radius = 0;
+  let confidence = 0;
+  let missed = 0;
+
+  for (let idx = seed.frameIndex; idx < candidatesByFrame.length; idx += 1) {
+    const candidates = candidatesByFrame[idx];
+
+    if (!position) {
+      const match = nearestCandidate(candidates, seed.x, seed.y, diagonal * SEED_GATE_RATIO);
+      if (!match) {
+        if (idx - seed.frameIndex >= MAX_MISSED_FRAMES) break;
+        continue;
+      }
+      position = [match.candidate.x, match.candidate.y];
+      radius = match.candidate.radius;
+      confidence = match.candidate.score * (1 - match.distance / (diagonal * SEED_GATE_RATIO));
+      track[idx] = { x: position[0], y: position[1], radius, confidence, predicted: false };
+      continue;
+    }
+
+    const predicted: [number, number] = [position[0] + velocity[0], position[1] + velocity[1]];
+    const gate = diagonal * TRACK_GATE_RATIO;
+    const match = nearestCandidate(candidates, predicted[0], predicted[1], gate);
+
+    if (match) {
+      const next: [number, number] = [match.candidate.x, match.candidate.y];
+      velocity = [next[0] - position[0], next[1] - position[1]];
+      position = next;
+      radius = match.candidate.radius;
+      missed = 0;
+      confidence = Math.min(
+        1,
+        confidence * 0.3 + match.candidate.score * (1 - match.distance / gate) * 0.7
+      );
+      track[idx] = { x: position[0], y: position[1], radius, confidence, predicted: false };
+      continue;
+    }
+
+    missed += 1;
+    if (missed > MAX_MISSED_FRAMES) break;
+    position = predicted;
+    confidence *= MISS_DECAY;
+    track[idx] = { x: position[0], y: position[1], radius, confidence, predicted: true };
+  }
+
+  // Trailing predictions never re-acquired the ball; drop them rather than extrapolate.
+  for (let idx = track.length - 1; idx >= 0; idx -= 1) {
+    const point = track[idx];
+    if (!point) continue;
+    if (!point.predicted) break;
+    track[idx] = null;
+  }
+
+  return track;
+}
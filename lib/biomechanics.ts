@@ -0,0 +1,145 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { FrameSnapshot } from "../components/VideoAnalyzer";
+
+export type BowlingArm = "left" | "right";
+
+export interface ElbowSample {
+  frameIndex: number;
+  time: number;
+  // Degrees short of a straight arm, null where the arm was not visible.
+  flexion: number | null;
+  // Straightening so far since the most flexed point after upper-arm horizontal.
+  extension: number | null;
+}
+
+export interface ElbowAssessment {
+  arm: BowlingArm;
+  horizontalFrame: number;
+  releaseFrame: number;
+  curve: ElbowSample[];
+  maxFlexion: number;
+  releaseFlexion: number;
+  extension: number;
+  legal: boolean;
+  worstFrames: ElbowSample[];
+}
+
+export type ElbowResult =
+  | { ok: true; assessment: ElbowAssessment }
+  | { ok: false; reason: string };
+
+// ICC regulations allow up to 15° of extension between upper-arm horizontal and release.
+export const ELBOW_TOLERANCE_DEGREES = 15;
+
+const MIN_KEYPOINT_SCORE = 0.3;
+const WORST_FRAME_COUNT = 3;
+
+type ArmJoints = { shoulder: Keypoint; elbow: Keypoint; wrist: Keypoint };
+
+function armJoints(keypoints: Keypoint[], arm: BowlingArm): ArmJoints | null {
+  const find = (joint: string) => {
+    const point = keypoints.find((kp) => kp.name === `${arm}_${joint}`);
+    return point && (point.score ?? 0) >= MIN_KEYPOINT_SCORE ? point : null;
+  };
+  const shoulder = find("shoulder");
+  const elbow = find("elbow");
+  const wrist = find("wrist");
+  return shoulder && elbow && wrist ? { shoulder, elbow, wrist } : null;
+}
+
+// Angle at the elbow between the upper arm and forearm, as degrees short of straight.
+function elbowFlexion({ shoulder, elbow, wrist }: ArmJoints): number {
+  const upper = [shoulder.x - elbow.x, shoulder.y - elbow.y];
+  const fore = [wrist.x - elbow.x, wrist.y - elbow.y];
+  const lengths = Math.hypot(upper[0], upper[1]) * Math.hypot(fore[0], fore[1]);
+  if (lengths === 0) return 0;
+  const cosine = (upper[0] * fore[0] + upper[1] * fore[1]) / lengths;
+  return 180 - (Math.acos(Math.min(Math.max(cosine, -1), 1)) * 180) / Math.PI;
+}
+
+// Image y grows downwards, so a positive value means the elbow is above the shoulder.
+function upperArmElevation({ shoulder, elbow }: ArmJoints): number {
+  return (Math.atan2(shoulder.y - elbow.y, Math.abs(elbow.x - shoulder.x)) * 180) / Math.PI;
+}
+
+// The bowling arm is the one whose wrist is highest at release.
+export function bowlingArm(keypoints: Keypoint[]): BowlingArm | null {
+  const lift = (arm: BowlingArm) => {
+    const joints = armJoints(keypoints, arm);
+    return joints ? joints.shoulder.y - joints.wrist.y : null;
+  };
+  const right = lift("right");
+  const left = lift("left");
+  if (right == null && left == null) return null;
+  return (left ?? -Infinity) > (right ?? -Infinity) ? "left" : "right";
+}
+
+/**
+ * Measures how far the bowling elbow straightens between upper-arm horizontal and release,
+ * from the 2D keypoints of a single view. Extension is the most flexed angle in that window
+ * minus the angle at release.
+ */
+export function assessElbowExtension(frames: FrameSnapshot[], releaseFrame: number): ElbowResult {
+  const release = frames[releaseFrame];
+  const arm = release ? bowlingArm(release.keypoints) : null;
+  if (!arm) {
+    return { ok: false, reason: "The bowling arm is not visible at release." };
+  }
+
+  const joints = frames.map((frame) => armJoints(frame.keypoints, arm));
+  const releaseJoints = joints[releaseFrame];
+  if (!releaseJoints) {
+    return { ok: false, reason: "The bowling arm is not visible at release." };
+  }
+
+  // Walk back from release while the upper arm is above horizontal.
+  let horizontalFrame = -1;
+  for (let idx = releaseFrame - 1; idx >= 0; idx -= 1) {
+    const entry = joints[idx];
+    if (!entry) continue;
+    if (upperArmElevation(entry) <= 0) {
+      horizontalFrame = idx;
+      break;
+    }
+  }
+  if (horizontalFrame < 0) {
+    return {
+      ok: false,
+      reason: "The upper arm was never seen below horizontal before release."
+    };
+  }
+
+  let maxFlexion = -Infinity;
+  const curve: ElbowSample[] = frames
+    .slice(horizontalFrame, releaseFrame + 1)
+    .map((frame, offset) => {
+      const frameIndex = horizontalFrame + offset;
+      const entry = joints[frameIndex];
+      if (!entry) return { frameIndex, time: frame.time, flexion: null, extension: null };
+      const flexion = elbowFlexion(entry);
+      maxFlexion = Math.max(maxFlexion, flexion);
+      return { frameIndex, time: frame.time, flexion, extension: maxFlexion - flexion };
+    });
+
+  const releaseFlexion = elbowFlexion(releaseJoints);
+  const extension = Math.max(maxFlexion - releaseFlexion, 0);
+  const worstFrames = curve
+    .filter((sample) => (sample.extension ?? 0) > 0)
+    .sort((a, b) => (b.extension ?? 0) - (a.extension ?? 0))
+    .slice(0, WORST_FRAME_COUNT);
+
+  return {
+    ok: true,
+    assessment: {
+      arm,
+      horizontalFrame,
+      releaseFrame,
+      curve,
+      maxFlexion,
+      releaseFlexion,
+      extension,
+      legal: extension <= ELBOW_TOLERANCE_DEGREES,
+      worstFrames
+    }
+  };
+}
@@ -0,0 +1,389 @@
+import { BALL_RADIUS_METERS, PITCH_LENGTH_METERS, Vec3 } from "./trajectory";
+
+export interface PitchLandmark {
+  id: string;
+  label: string;
+  // Ground-plane coordinates: x lateral (positive on the bowler's left), z along the pitch.
+  ground: [number, number];
+}
+
+export interface LandmarkCorrespondence {
+  landmarkId: string;
+  pixel: [number, number];
+}
+
+export interface CameraCalibration {
+  imageSize: [number, number];
+  correspondences: LandmarkCorrespondence[];
+  // Row-major 3x3 mapping ground (x, z, 1) to homogeneous pixels.
+  homography: number[];
+  focalLength: number;
+  // Row-major 3x3 world-to-camera rotation.
+  rotation: number[];
+  translation: Vec3;
+  cameraPosition: Vec3;
+  reprojectionError: number;
+}
+
+const POPPING_CREASE = 1.22;
+const RETURN_CREASE = 1.32;
+const STORAGE_PREFIX = "hawkeye:calibration:";
+
+export const MIN_CORRESPONDENCES = 4;
+
+export const PITCH_LANDMARKS: PitchLandmark[] = [
+  { id: "bowler-stumps", label: "Bowler's end middle stump base", ground: [0, 0] },
+  {
+    id: "bowler-crease-left",
+    label: "Bowler's end bowling/return crease (bowler's left)",
+    ground: [RETURN_CREASE, 0]
+  },
+  {
+    id: "bowler-crease-right",
+    label: "Bowler's end bowling/return crease (bowler's right)",
+    ground: [-RETURN_CREASE, 0]
+  },
+  {
+    id: "bowler-popping-left",
+    label: "Bowler's end popping/return crease (bowler's left)",
+    ground: [RETURN_CREASE, POPPING_CREASE]
+  },
+  {
+    id: "bowler-popping-right",
+    label: "Bowler's end popping/return crease (bowler's right)",
+    ground: [-RETURN_CREASE, POPPING_CREASE]
+  },
+  {
+    id: "batter-popping-left",
+    label: "Batter's end popping/return crease (bowler's left)",
+    ground: [RETURN_CREASE, PITCH_LENGTH_METERS - POPPING_CREASE]
+  },
+  {
+    id: "batter-popping-right",
+    label: "Batter's end popping/return crease (bowler's right)",
+    ground: [-RETURN_CREASE, PITCH_LENGTH_METERS - POPPING_CREASE]
+  },
+  {
+    id: "batter-crease-left",
+    label: "Batter's end bowling/return crease (bowler's left)",
+    ground: [RETURN_CREASE, PITCH_LENGTH_METERS]
+  },
+  {
+    id: "batter-crease-right",
+    label: "Batter's end bowling/return crease (bowler's right)",
+    ground: [-RETURN_CREASE, PITCH_LENGTH_METERS]
+  },
+  {
+    id: "batter-stumps",
+    label: "Batter's end middle stump base",
+    ground: [0, PITCH_LENGTH_METERS]
+  }
+];
+
+function solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+  const size = rhs.length;
+  const rows = matrix.map((row, idx) => [...row, rhs[idx]]);
+  for (let col = 0; col < size; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row += 1) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < size; row += 1) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= size; k += 1) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return rows.map((row, idx) => row[size] / row[idx]);
+}
+
+// Hartley normalisation: centre the points and scale them to an average distance of √2.
+function normalisation(points: [number, number][]): number[] {
+  const cx = points.reduce((acc, pt) => acc + pt[0], 0) / points.length;
+  const cy = points.reduce((acc, pt) => acc + pt[1], 0) / points.length;
+  const spread =
+    points.reduce((acc, pt) => acc + Math.hypot(pt[0] - cx, pt[1] - cy), 0) / points.length;
+  const scale = spread > 0 ? Math.SQRT2 / spread : 1;
+  return [scale, 0, -scale * cx, 0, scale, -scale * cy, 0, 0, 1];
+}
+
+function multiply3(a: number[], b: number[]): number[] {
+  const out: number[] = [];
+  for (let row = 0; row < 3; row += 1) {
+    for (let col = 0; col < 3; col += 1) {
+      out.push(a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col]);
+    }
+  }
+  return out;
+}
+
+function invert3(m: number[]): number[] | null {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    (e * i - f * h) / det,
+    (c * h - b * i) / det,
+    (b * f - c * e) / det,
+    (f * g - d * i) / det,
+    (a * i - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det
+  ];
+}
+
+function transformPoint(m: number[], x: number, y: number): [number, number] {
+  const w = m[6] * x + m[7] * y + m[8];
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+}
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+
+const norm = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
+
+const scale = (v: Vec3, factor: number): Vec3 => [v[0] * factor, v[1] * factor, v[2] * factor];
+
+/** Direct linear transform from ground (x, z) to pixels, solved with h33 fixed to 1. */
+export function solveHomography(ground: [number, number][], pixels: [number, number][]) {
+  if (ground.length < MIN_CORRESPONDENCES || ground.length !== pixels.length) return null;
+  const groundNorm = normalisation(ground);
+  const pixelNorm = normalisation(pixels);
+  const normal: number[][] = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const rhs = new Array(8).fill(0);
+
+  ground.forEach((point, idx) => {
+    const [x, z] = transformPoint(groundNorm, point[0], point[1]);
+    const [u, v] = transformPoint(pixelNorm, pixels[idx][0], pixels[idx][1]);
+    const equations: [number[], number][] = [
+      [[x, z, 1, 0, 0, 0, -u * x, -u * z], u],
+      [[0, 0, 0, x, z, 1, -v * x, -v * z], v]
+    ];
+    equations.forEach(([row, value]) => {
+      for (let i = 0; i < 8; i += 1) {
+        rhs[i] += row[i] * value;
+        for (let j = 0; j < 8; j += 1) normal[i][j] += row[i] * row[j];
+      }
+    });
+  });
+
+  const solution = solveLinear(normal, rhs);
+  const pixelDenorm = invert3(pixelNorm);
+  if (!solution || !pixelDenorm) return null;
+  const homography = multiply3(pixelDenorm, multiply3([...solution, 1], groundNorm));
+  return homography.map((value) => value / homography[8]);
+}
+
+// Principal point at the image centre and square pixels; the focal length follows from
+// the homography's rotation columns being orthogonal and of equal length.
+function estimateFocalLength(h: number[], width: number, height: number): number {
+  const cx = width / 2;
+  const cy = height / 2;
+  const c = (row: number, col: number) => {
+    const value = h[row * 3 + col];
+    if (row === 0) return value - cx * h[6 + col];
+    if (row === 1) return value - cy * h[6 + col];
+    return value;
+  };
+  // Each constraint degenerates when its denominator vanishes (e.g. a pitch axis parallel
+  // to the image plane), so trust the better-conditioned one.
+  const candidates = [
+    {
+      value: -(c(0, 0) * c(0, 1) + c(1, 0) * c(1, 1)),
+      denominator: c(2, 0) * c(2, 1)
+    },
+    {
+      value: c(0, 1) ** 2 + c(1, 1) ** 2 - c(0, 0) ** 2 - c(1, 0) ** 2,
+      denominator: c(2, 0) ** 2 - c(2, 1) ** 2
+    }
+  ]
+    .filter(({ value, denominator }) => denominator !== 0 && value / denominator > 0)
+    .sort((a, b) => Math.abs(b.denominator) - Math.abs(a.denominator));
+  const candidate = candidates[0] && candidates[0].value / candidates[0].denominator;
+  return candidate ? Math.sqrt(candidate) : Math.max(width, height) * 1.2;
+}
+
+export function calibrateCamera(
+  correspondences: LandmarkCorrespondence[],
+  imageSize: [number, number]
+): CameraCalibration | null {
+  const matched = correspondences
+    .map((entry) => ({
+      entry,
+      landmark: PITCH_LANDMARKS.find((landmark) => landmark.id === entry.landmarkId)
+    }))
+    .filter(
+      (item): item is { entry: LandmarkCorrespondence; landmark: PitchLandmark } =>
+        item.landmark != null
+    );
+  const homography = solveHomography(
+    matched.map((item) => item.landmark.ground),
+    matched.map((item) => item.entry.pixel)
+  );
+  if (!homography) return null;
+
+  const [width, height] = imageSize;
+  const focalLength = estimateFocalLength(homography, width, height);
+  const kInverse = [
+    1 / focalLength,
+    0,
+    -width / (2 * focalLength),
+    0,
+    1 / focalLength,
+    -height / (2 * focalLength),
+    0,
+    0,
+    1
+  ];
+  const normalised = multiply3(kInverse, homography);
+  const column = (col: number): Vec3 => [normalised[col], normalised[3 + col], normalised[6 + col]];
+
+  // Pick the sign that puts the pitch in front of the camera.
+  let lambda = 1 / norm(column(0));
+  if (column(2)[2] * lambda < 0) lambda = -lambda;
+  const rx = scale(column(0), lambda);
+  const rzRaw = scale(column(1), lambda);
+  const translation = scale(column(2), lambda);
+  const ry = cross(rzRaw, rx);
+  const ryUnit = scale(ry, 1 / norm(ry));
+  const rz = cross(rx, ryUnit);
+  // Columns are the world x, y, z axes expressed in camera space.
+  const rotation = [0, 1, 2].flatMap((row) => [rx[row], ryUnit[row], rz[row]]);
+  const cameraPosition: Vec3 = [0, 1, 2].map(
+    (axis) =>
+      -(rotation[axis] * translation[0] +
+        rotation[3 + axis] * translation[1] +
+        rotation[6 + axis] * translation[2])
+  ) as Vec3;
+
+  const calibration: CameraCalibration = {
+    imageSize,
+    correspondences,
+    homography,
+    focalLength,
+    rotation,
+    translation,
+    cameraPosition,
+    reprojectionError: 0
+  };
+  const squaredError = matched.reduce((acc, item) => {
+    const [x, z] = item.landmark.ground;
+    const [u, v] = projectToImage(calibration, [x, 0, z]);
+    return acc + (u - item.entry.pixel[0]) ** 2 + (v - item.entry.pixel[1]) ** 2;
+  }, 0);
+  calibration.reprojectionError = Math.sqrt(squaredError / matched.length);
+  return calibration;
+}
+
+export function projectToImage(calibration: CameraCalibration, point: Vec3): [number, number] {
+  const { rotation: r, translation: t, focalLength, imageSize } = calibration;
+  const camera: Vec3 = [0, 1, 2].map(
+    (row) =>
+      r[row * 3] * point[0] + r[row * 3 + 1] * point[1] + r[row * 3 + 2] * point[2] + t[row]
+  ) as Vec3;
+  const depth = Math.max(camera[2], 1e-6);
+  return [
+    (focalLength * camera[0]) / depth + imageSize[0] / 2,
+    (focalLength * camera[1]) / depth + imageSize[1] / 2
+  ];
+}
+
+/** World-space ray through a pixel, starting at the camera centre. */
+export function pixelRay(
+  calibration: CameraCalibration,
+  pixel: [number, number]
+): { origin: Vec3; direction: Vec3 } {
+  const { rotation: r, focalLength, imageSize } = calibration;
+  const cameraDirection: Vec3 = [
+    (pixel[0] - imageSize[0] / 2) / focalLength,
+    (pixel[1] - imageSize[1] / 2) / focalLength,
+    1
+  ];
+  const direction: Vec3 = [0, 1, 2].map(
+    (axis) =>
+      r[axis] * cameraDirection[0] +
+      r[3 + axis] * cameraDirection[1] +
+      r[6 + axis] * cameraDirection[2]
+  ) as Vec3;
+  return { origin: calibration.cameraPosition, direction: scale(direction, 1 / norm(direction)) };
+}
+
+function intersectAxisPlane(
+  ray: { origin: Vec3; direction: Vec3 },
+  axis: 0 | 1 | 2,
+  value: number
+): Vec3 | null {
+  if (Math.abs(ray.direction[axis]) < 1e-6) return null;
+  const distance = (value - ray.origin[axis]) / ray.direction[axis];
+  if (distance <= 0) return null;
+  return [0, 1, 2].map((idx) => ray.origin[idx] + ray.direction[idx] * distance) as Vec3;
+}
+
+/** Where a pixel meets the pitch surface, e.g. a foot planted on the ground. */
+export function locateOnGround(
+  calibration: CameraCalibration,
+  pixel: [number, number]
+): Vec3 | null {
+  return intersectAxisPlane(pixelRay(calibration, pixel), 1, 0);
+}
+
+/**
+ * Places a single-view ball observation in pitch coordinates. Side-on cameras intersect
+ * the ray with the pitch centre plane; cameras looking down the pitch range the ball
+ * from its apparent radius, falling back to the bowling crease plane when it is unknown.
+ */
+export function locateInWorld(
+  calibration: CameraCalibration,
+  pixel: [number, number],
+  radiusPx?: number
+): Vec3 | null {
+  const ray = pixelRay(calibration, pixel);
+  const forward: Vec3 = [calibration.rotation[6], calibration.rotation[7], calibration.rotation[8]];
+  if (Math.abs(forward[0]) >= Math.abs(forward[2])) {
+    return intersectAxisPlane(ray, 0, 0);
+  }
+  if (radiusPx && radiusPx > 0) {
+    const distance = (calibration.focalLength * BALL_RADIUS_METERS) / radiusPx;
+    return [0, 1, 2].map((idx) => ray.origin[idx] + ray.direction[idx] * distance) as Vec3;
+  }
+  return intersectAxisPlane(ray, 2, 0);
+}
+
+export function clipStorageKey(file: Pick<File, "name" | "size" | "lastModified">): string {
+  return `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function loadCalibration(key: string): CameraCalibration | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as Pick<CameraCalibration, "correspondences" | "imageSize">;
+    return calibrateCamera(stored.correspondences, stored.imageSize);
+  } catch (err) {
+    console.error(err);
+    return null;
+  }
+}
+
+export function saveCalibration(key: string, calibration: CameraCalibration | null): void {
+  if (typeof window === "undefined") return;
+  if (!calibration) {
+    window.localStorage.removeItem(key);
+    return;
+  }
+  window.localStorage.setItem(
+    key,
+    JSON.stringify({
+      correspondences: calibration.correspondences,
+      imageSize: calibration.imageSize
+    })
+  );
+}
@@ -0,0 +1,97 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { AnalysisResult } from "../components/VideoAnalyzer";
+import type { SeamEstimate } from "./movement";
+
+// measured: read from tracked data in calibrated units. estimated: read from the footage
+// but through an assumption (no calibration, a single view, a heuristic). defaulted: there
+// was nothing to read, and the value is a placeholder that must not be shown as a result.
+export type Provenance = "measured" | "estimated" | "defaulted";
+
+export type SummaryMetric = keyof AnalysisResult["summary"];
+
+export interface MetricConfidence {
+  provenance: Provenance;
+  // Roughly 95% interval in the metric's own unit; null when there is none to give.
+  low: number | null;
+  high: number | null;
+  // Why the value is not fully measured, shown as a warning next to it.
+  reason: string | null;
+}
+
+export type SummaryConfidence = Partial<Record<SummaryMetric, MetricConfidence>>;
+
+export const PROVENANCE_LABELS: Record<Provenance, string> = {
+  measured: "Measured",
+  estimated: "Estimated",
+  defaulted: "No measurement"
+};
+
+/** The summary value, or null when it is only a placeholder. */
+export const measuredValue = <M extends SummaryMetric>(analysis: AnalysisResult, metric: M) =>
+  analysis.confidence?.[metric]?.provenance === "defaulted" ? null : analysis.summary[metric];
+
+export function within(
+  provenance: Exclude<Provenance, "defaulted">,
+  value: number,
+  halfWidth: number,
+  reason: string | null = null
+): MetricConfidence {
+  return { provenance, low: value - halfWidth, high: value + halfWidth, reason };
+}
+
+export function defaulted(reason: string): MetricConfidence {
+  return { provenance: "defaulted", low: null, high: null, reason };
+}
+
+/**
+ * Two standard errors of a straight-line slope fitted to `samples` points spread over
+ * `span` seconds with the given RMS residual; speeds come from such slopes.
+ */
+export function slopeSpread(residual: number, samples: number, span: number): number {
+  if (samples < 2 || span <= 0) return Infinity;
+  return (2 * residual * Math.sqrt(12 / samples)) / span;
+}
+
+/**
+ * Interval half-width for an angle read from keypoints: `best` with confident joints,
+ * growing towards `worst` as the weakest joint's score drops.
+ */
+export function keypointSpread(points: (Keypoint | undefined)[], best: number, worst: number) {
+  const weakest = Math.min(...points.map((point) => point?.score ?? 0));
+  return best + (worst - best) * (1 - Math.min(Math.max(weakest, 0), 1));
+}
+
+// Independent error sources add in quadrature.
+export const combine = (...spreads: number[]) =>
+  Math.sqrt(spreads.reduce((sum, spread) => sum + spread * spread, 0));
+
+// Spread of one seam tilt reading off a blurred patch, degrees.
+const SEAM_READING_DEGREES = 20;
+// Share of the spin rate one frame-to-frame step can be out by.
+const SPIN_STEP_SHARE = 0.4;
+// Orientation averages at most this many readings after release, as in `measureSeam`.
+const SEAM_READINGS_AVERAGED = 3;
+
+/** Intervals for the seam readings, which only ever come from a few small image patches. */
+export function rateSeam(seam: SeamEstimate): SummaryConfidence {
+  const reason = "Read from the ball image over a few frames.";
+  const readings = Math.min(seam.frames, SEAM_READINGS_AVERAGED);
+  return {
+    seamOrientation: within(
+      "estimated",
+      seam.orientation,
+      SEAM_READING_DEGREES / Math.sqrt(readings),
+      reason
+    ),
+    ...(seam.spinRpm != null
+      ? {
+          spinRpm: within(
+            "estimated",
+            seam.spinRpm,
+            (SPIN_STEP_SHARE / Math.sqrt(Math.max(seam.frames - 1, 1))) * seam.spinRpm,
+            reason
+          )
+        }
+      : {})
+  };
+}
@@ -0,0 +1,112 @@
+import type { FrameSnapshot } from "../components/VideoAnalyzer";
+
+export type KeyMomentName = "releaseFrame" | "pitchFrame" | "impactFrame";
+
+export interface AnalysisCorrections {
+  // Key moments fixed by hand, in place of the detected ones.
+  keyMoments: Partial<Record<KeyMomentName, number>>;
+  // Ball centres placed by hand in video pixels, by frame index; null removes a false track.
+  ballPixels: Record<number, [number, number] | null>;
+  // Frames whose keypoints were thrown out as bad detections.
+  clearedKeypoints: number[];
+}
+
+export const KEY_MOMENTS: { name: KeyMomentName; label: string }[] = [
+  { name: "releaseFrame", label: "Release" },
+  { name: "pitchFrame", label: "Pitch" },
+  { name: "impactFrame", label: "Impact" }
+];
+
+export const NO_CORRECTIONS: AnalysisCorrections = {
+  keyMoments: {},
+  ballPixels: {},
+  clearedKeypoints: []
+};
+
+// Radius used for a hand-placed ball when no tracked frame nearby gives one.
+const DEFAULT_BALL_RADIUS = 6;
+
+export function hasCorrections(corrections: AnalysisCorrections | null | undefined): boolean {
+  return Boolean(
+    corrections &&
+      (Object.keys(corrections.keyMoments).length ||
+        Object.keys(corrections.ballPixels).length ||
+        corrections.clearedKeypoints.length)
+  );
+}
+
+export function isBallEdited(corrections: AnalysisCorrections | null, frameIndex: number) {
+  return Boolean(corrections && frameIndex in corrections.ballPixels);
+}
+
+/**
+ * Moves one key moment. The others are pushed along where needed so release, pitch and
+ * impact stay in order.
+ */
+export function setKeyMoment(
+  corrections: AnalysisCorrections,
+  current: Record<KeyMomentName, number>,
+  name: KeyMomentName,
+  frameIndex: number
+): AnalysisCorrections {
+  const order = KEY_MOMENTS.map((moment) => moment.name);
+  const position = order.indexOf(name);
+  const keyMoments = { ...corrections.keyMoments, [name]: frameIndex };
+  order.forEach((other, idx) => {
+    const value = keyMoments[other] ?? current[other];
+    if (idx < position && value > frameIndex) keyMoments[other] = frameIndex;
+    if (idx > position && value < frameIndex) keyMoments[other] = frameIndex;
+  });
+  return { ...corrections, keyMoments };
+}
+
+export function setBallPixel(
+  corrections: AnalysisCorrections,
+  frameIndex: number,
+  pixel: [number, number] | null
+): AnalysisCorrections {
+  return { ...corrections, ballPixels: { ...corrections.ballPixels, [frameIndex]: pixel } };
+}
+
+export function toggleKeypoints(
+  corrections: AnalysisCorrections,
+  frameIndex: number
+): AnalysisCorrections {
+  const cleared = corrections.clearedKeypoints.includes(frameIndex)
+    ? corrections.clearedKeypoints.filter((idx) => idx !== frameIndex)
+    : [...corrections.clearedKeypoints, frameIndex].sort((a, b) => a - b);
+  return { ...corrections, clearedKeypoints: cleared };
+}
+
+/**
+ * Applies hand edits to sampled frames before any geometry runs. A placed ball counts as a
+ * certain sighting, and with a release set by hand nothing before it is treated as the ball
+ * in flight.
+ */
+export function applyFrameCorrections(
+  frames: FrameSnapshot[],
+  corrections: AnalysisCorrections
+): FrameSnapshot[] {
+  const release = corrections.keyMoments.releaseFrame;
+  const radiusNear = (frameIndex: number) =>
+    frames.reduce<{ gap: number; radius: number } | null>((best, frame, idx) => {
+      if (!frame.ballPixel) return best;
+      const gap = Math.abs(idx - frameIndex);
+      return !best || gap < best.gap ? { gap, radius: frame.ballPixel[2] } : best;
+    }, null)?.radius ?? DEFAULT_BALL_RADIUS;
+
+  return frames.map((frame, idx) => {
+    let next = frame;
+    if (corrections.clearedKeypoints.includes(idx)) next = { ...next, keypoints: [] };
+    if (release != null && idx < release) {
+      next = { ...next, ballPixel: null, ballConfidence: 0 };
+    }
+    if (idx in corrections.ballPixels) {
+      const pixel = corrections.ballPixels[idx];
+      next = pixel
+        ? { ...next, ballPixel: [pixel[0], pixel[1], radiusNear(idx)], ballConfidence: 1 }
+        : { ...next, ballPixel: null, ballConfidence: 0 };
+    }
+    return next;
+  });
+}
@@ -0,0 +1,126 @@
+import * as poseDetection from "@tensorflow-models/pose-detection";
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import * as tf from "@tensorflow/tfjs-core";
+import "@tensorflow/tfjs-backend-cpu";
+import "@tensorflow/tfjs-backend-webgl";
+import { setWasmPaths } from "@tensorflow/tfjs-backend-wasm";
+import {
+  BackendChoice,
+  DEFAULT_DETECTOR_SETTINGS,
+  DetectorInfo,
+  DetectorSettings,
+  PoseFixtureFrame,
+  PoseModel,
+  TfBackend,
+  normalizeKeypoints
+} from "./poseModels";
+
+// Runs inside the pose worker. The page only needs `poseModels`, which keeps TensorFlow.js
+// out of the main bundle.
+
+/**
+ * One pose model on one TensorFlow backend. Returns every person found, each with keypoints
+ * in the shared schema; single-person models return at most one.
+ */
+export interface PoseBackend {
+  info: DetectorInfo;
+  estimate: (image: ImageData, time: number) => Promise<Keypoint[][]>;
+  dispose: () => void;
+}
+
+// Fastest first; each is tried in turn when the one asked for cannot start.
+const BACKEND_ORDER: TfBackend[] = ["webgl", "wasm", "cpu"];
+// Copied into `public/` with the app, so the backend runs only code shipped with it, offline too.
+const WASM_PATH = "/tfjs-backend-wasm/";
+
+const MOVENET_TYPES: Partial<Record<PoseModel, string>> = {
+  "movenet-multipose": poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
+  "movenet-lightning": poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+  "movenet-thunder": poseDetection.movenet.modelType.SINGLEPOSE_THUNDER
+};
+
+let cached: { key: string; backend: Promise<PoseBackend> } | null = null;
+
+async function selectBackend(choice: BackendChoice): Promise<TfBackend> {
+  const order =
+    choice === "auto" ? BACKEND_ORDER : [choice, ...BACKEND_ORDER.filter((id) => id !== choice)];
+  for (const backend of order) {
+    try {
+      if (backend === "wasm") setWasmPaths(WASM_PATH);
+      if (await tf.setBackend(backend)) {
+        await tf.ready();
+        return backend;
+      }
+    } catch (err) {
+      console.warn(`TensorFlow.js backend ${backend} failed to start.`, err);
+    }
+  }
+  throw new Error("No TensorFlow.js backend could start on this device.");
+}
+
+async function createModelBackend(settings: DetectorSettings): Promise<PoseBackend> {
+  const backend = await selectBackend(settings.backend);
+  const detector =
+    settings.model === "blazepose"
+      ? await poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, {
+          runtime: "tfjs",
+          modelType: "full",
+          // Frames are seeked out of order, so smoothing across them would blur the action.
+          enableSmoothing: false
+        })
+      : await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+          modelType: MOVENET_TYPES[settings.model] ?? MOVENET_TYPES["movenet-lightning"],
+          // People are followed across frames by the analysis, which sees the whole clip.
+          enableTracking: false
+        });
+  return {
+    info: { model: settings.model, backend },
+    estimate: async (image) => {
+      const poses = await detector.estimatePoses(image, { flipHorizontal: false });
+      return poses.map((pose) => normalizeKeypoints(pose.keypoints));
+    },
+    dispose: () => detector.dispose()
+  };
+}
+
+/** Replays the people stored for the frame nearest in time, so runs are repeatable. */
+function createFixtureBackend(frames: PoseFixtureFrame[]): PoseBackend {
+  if (!frames.length) throw new Error("Choose an analysis export to replay its keypoints.");
+  return {
+    info: { model: "fixture", backend: null },
+    estimate: async (_image, time) => {
+      const nearest = frames.reduce((best, frame) =>
+        Math.abs(frame.time - time) < Math.abs(best.time - time) ? frame : best
+      );
+      return nearest.people.map(normalizeKeypoints);
+    },
+    dispose: () => undefined
+  };
+}
+
+/**
+ * Loads the requested pose backend, reusing it while the settings stay the same. A change
+ * of settings disposes the previous model once the new one is ready.
+ */
+export function loadDetector(
+  settings: DetectorSettings = DEFAULT_DETECTOR_SETTINGS,
+  fixture: PoseFixtureFrame[] | null = null
+): Promise<PoseBackend> {
+  const key = settings.model === "fixture" ? "fixture" : `${settings.model}:${settings.backend}`;
+  // A new fixture is always reloaded; it is cheap and may differ from the last.
+  if (cached && cached.key === key && settings.model !== "fixture") return cached.backend;
+  const previous = cached?.backend;
+  const backend = (async () => {
+    const loaded =
+      settings.model === "fixture"
+        ? createFixtureBackend(fixture ?? [])
+        : await createModelBackend(settings);
+    (await previous?.catch(() => null))?.dispose();
+    return loaded;
+  })();
+  cached = { key, backend };
+  backend.catch(() => {
+    if (cached?.backend === backend) cached = null;
+  });
+  return backend;
+}
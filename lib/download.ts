@@ -0,0 +1,11 @@
+/** Saves a blob through a temporary link, the only way to trigger a download in-browser. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const baseFileName = (name: string) => name.replace(/\.[^.]+$/, "") || "delivery";
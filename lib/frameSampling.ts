@@ -0,0 +1,179 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+
+export interface SampleWindow {
+  start: number;
+  end: number;
+}
+
+export const COARSE_SAMPLE_FRAMES = 60;
+export const DEFAULT_FRAME_RATE = 30;
+// Release to the stumps takes well under a second even for slow bowling.
+const FLIGHT_SECONDS = 1.1;
+const RELEASE_LEAD_SECONDS = 0.3;
+const MAX_DENSE_FRAMES = 180;
+const MIN_KEYPOINT_SCORE = 0.3;
+const FRAME_RATE_PROBE_FRAMES = 12;
+const FRAME_RATE_PROBE_MS = 1500;
+// Slowed right down so even high-speed footage presents every frame on a 60 Hz display.
+const FRAME_RATE_PROBE_PLAYBACK = 0.25;
+// How long to wait for a recording without a duration to reveal one.
+const DURATION_PROBE_MS = 5000;
+
+// Sample at the middle of a frame's display interval so seeking cannot land on a neighbour.
+const frameTime = (frame: number, frameRate: number) => (frame + 0.5) / frameRate;
+const lastFrame = (duration: number, frameRate: number) =>
+  Math.max(Math.floor(duration * frameRate) - 1, 0);
+
+function medianInterval(times: number[]): number | null {
+  const gaps = times
+    .slice(1)
+    .map((time, idx) => time - times[idx])
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+  return gaps.length ? gaps[Math.floor(gaps.length / 2)] : null;
+}
+
+/**
+ * Measures the clip's native frame rate from the media times of presented frames during a
+ * short, slowed-down, muted playback. Falls back to 30 fps where frame callbacks are missing.
+ * Leaves the video paused wherever the probe stopped; callers seek before sampling.
+ */
+export function estimateFrameRate(video: HTMLVideoElement): Promise<number> {
+  if (typeof video.requestVideoFrameCallback !== "function") {
+    return Promise.resolve(DEFAULT_FRAME_RATE);
+  }
+  const { muted, playbackRate } = video;
+  return new Promise((resolve) => {
+    const mediaTimes: number[] = [];
+    let handle = 0;
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      video.cancelVideoFrameCallback(handle);
+      video.pause();
+      video.muted = muted;
+      video.playbackRate = playbackRate;
+      const interval = medianInterval(mediaTimes);
+      resolve(
+        interval ? Math.min(Math.max(Math.round(1 / interval), 10), 240) : DEFAULT_FRAME_RATE
+      );
+    };
+    const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= FRAME_RATE_PROBE_FRAMES) finish();
+      else handle = video.requestVideoFrameCallback(onFrame);
+    };
+    const timer = setTimeout(finish, FRAME_RATE_PROBE_MS);
+    handle = video.requestVideoFrameCallback(onFrame);
+    video.muted = true;
+    video.playbackRate = FRAME_RATE_PROBE_PLAYBACK;
+    video.play().catch(finish);
+  });
+}
+
+/**
+ * The clip's duration. Recorded WebM, such as live captures, carries no duration until the
+ * browser has seen its end, so seek far past it and read the duration once it is known.
+ * Resolves to 0 when none turns up in time; rejects if the clip cannot be decoded.
+ */
+export function resolveDuration(video: HTMLVideoElement, signal?: AbortSignal): Promise<number> {
+  if (Number.isFinite(video.duration)) return Promise.resolve(video.duration);
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener("durationchange", handleChange);
+      video.removeEventListener("error", handleError);
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleChange = () => {
+      if (!Number.isFinite(video.duration)) return;
+      cleanup();
+      resolve(video.duration);
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error("The clip could not be decoded."));
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException("Reading the clip was cancelled.", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      resolve(0);
+    }, DURATION_PROBE_MS);
+    video.addEventListener("durationchange", handleChange);
+    video.addEventListener("error", handleError);
+    signal?.addEventListener("abort", handleAbort);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+}
+
+/** Evenly spaced frame times over the whole clip for the first, pose-only pass. */
+export function coarseSampleTimes(duration: number, frameRate: number): number[] {
+  const last = lastFrame(duration, frameRate);
+  const stride = Math.max(last / Math.max(COARSE_SAMPLE_FRAMES - 1, 1), 1);
+  const frames = new Set<number>();
+  for (let frame = 0; frame <= last; frame += stride) frames.add(Math.round(frame));
+  frames.add(last);
+  return Array.from(frames, (frame) => frameTime(frame, frameRate));
+}
+
+function armLift(keypoints: Keypoint[], side: "left" | "right"): number | null {
+  const wrist = keypoints.find((kp) => kp.name === `${side}_wrist`);
+  const shoulder = keypoints.find((kp) => kp.name === `${side}_shoulder`);
+  if (!wrist || !shoulder) return null;
+  if ((wrist.score ?? 0) < MIN_KEYPOINT_SCORE || (shoulder.score ?? 0) < MIN_KEYPOINT_SCORE) {
+    return null;
+  }
+  return shoulder.y - wrist.y;
+}
+
+/**
+ * Finds the load-up and release from the coarse pass: the bowling arm is the one whose wrist
+ * climbs highest above its shoulder, release is that peak, and load-up starts where the
+ * wrist last rose above the shoulder. The window then runs on through the ball's flight.
+ */
+export function releaseWindow(
+  samples: { time: number; keypoints: Keypoint[] }[]
+): SampleWindow | null {
+  let peak: { side: "left" | "right"; index: number; lift: number } | null = null;
+  for (const side of ["right", "left"] as const) {
+    for (let index = 0; index < samples.length; index += 1) {
+      const lift = armLift(samples[index].keypoints, side);
+      if (lift != null && lift > 0 && (!peak || lift > peak.lift)) peak = { side, index, lift };
+    }
+  }
+  if (!peak) return null;
+
+  let loadUp = peak.index;
+  while (loadUp > 0 && (armLift(samples[loadUp - 1].keypoints, peak.side) ?? 0) > 0) {
+    loadUp -= 1;
+  }
+  const releaseTime = samples[peak.index].time;
+  const start = Math.min(
+    samples[Math.max(loadUp - 1, 0)].time,
+    releaseTime - RELEASE_LEAD_SECONDS
+  );
+  return { start: Math.max(start, 0), end: releaseTime + FLIGHT_SECONDS };
+}
+
+/**
+ * Frame times inside the window at the native frame rate, thinned evenly when the window
+ * would need more than the dense-pass budget (high-speed footage, or no release found).
+ */
+export function denseSampleTimes(
+  span: SampleWindow,
+  frameRate: number,
+  duration: number
+): number[] {
+  const first = Math.max(Math.ceil(span.start * frameRate - 0.5), 0);
+  const last = Math.min(Math.floor(span.end * frameRate - 0.5), lastFrame(duration, frameRate));
+  if (last < first) return [];
+  const stride = Math.max(Math.ceil((last - first + 1) / MAX_DENSE_FRAMES), 1);
+  const times: number[] = [];
+  for (let frame = first; frame <= last; frame += stride) times.push(frameTime(frame, frameRate));
+  return times;
+}
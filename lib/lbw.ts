@@ -0,0 +1,137 @@
+import {
+  BALL_RADIUS_METERS,
+  PITCH_LENGTH_METERS,
+  Vec3,
+  pointAtDepth
+} from "./trajectory";
+
+export type BatterHand = "right" | "left";
+export type OnFieldDecision = "out" | "not-out";
+
+export type PitchingVerdict = "in-line" | "outside-off" | "outside-leg";
+export type ImpactVerdict = "in-line" | "umpires-call" | "outside";
+export type WicketsVerdict = "hitting" | "umpires-call" | "missing";
+
+export interface LbwOptions {
+  batterHand: BatterHand;
+  onField: OnFieldDecision;
+  shotOffered: boolean;
+  // Distance in front of the stumps where the ball meets the pad.
+  impactDistance: number;
+}
+
+export interface LbwTrajectory {
+  path: Vec3[];
+  pitchingPoint: Vec3 | null;
+  // Without a path to the stumps there is no wickets verdict.
+  reachesStumps: boolean;
+  stumpsLine: number;
+  stumpsHeight: number;
+}
+
+export interface LbwDecision {
+  pitching: PitchingVerdict | null;
+  impact: ImpactVerdict;
+  wickets: WicketsVerdict | null;
+  impactPoint: Vec3;
+  decision: OnFieldDecision;
+  overturned: boolean;
+  reason: string;
+}
+
+export const STUMPS_WIDTH_METERS = 0.2286;
+export const STUMPS_HEIGHT_METERS = 0.711;
+export const BAILS_TOP_METERS = 0.724;
+// The bails rest in grooves on the stump tops.
+export const BAILS_BOTTOM_METERS = STUMPS_HEIGHT_METERS;
+export const POPPING_CREASE_METERS = 1.22;
+
+const STUMPS_HALF_WIDTH = STUMPS_WIDTH_METERS / 2;
+
+// Trajectory x is positive towards the off side of a right-hander; mirror for left-handers.
+function offSideOffset(x: number, hand: BatterHand): number {
+  return hand === "right" ? x : -x;
+}
+
+export function classifyPitching(point: Vec3, hand: BatterHand): PitchingVerdict {
+  const offset = offSideOffset(point[0], hand);
+  if (offset < -STUMPS_HALF_WIDTH) return "outside-leg";
+  if (offset > STUMPS_HALF_WIDTH) return "outside-off";
+  return "in-line";
+}
+
+// Umpire's call once less than half of the ball is inside the line of the stumps.
+export function classifyImpact(point: Vec3): ImpactVerdict {
+  const lateral = Math.abs(point[0]);
+  if (lateral <= STUMPS_HALF_WIDTH) return "in-line";
+  if (lateral <= STUMPS_HALF_WIDTH + BALL_RADIUS_METERS) return "umpires-call";
+  return "outside";
+}
+
+// Hitting needs the centre of the ball inside the wicket zone, below the bails; clipping the
+// bails or the outside of a stump is umpire's call.
+export function classifyWickets(line: number, height: number): WicketsVerdict {
+  const lateral = Math.abs(line);
+  if (lateral <= STUMPS_HALF_WIDTH && height <= BAILS_BOTTOM_METERS) return "hitting";
+  if (
+    lateral <= STUMPS_HALF_WIDTH + BALL_RADIUS_METERS &&
+    height <= BAILS_TOP_METERS + BALL_RADIUS_METERS
+  ) {
+    return "umpires-call";
+  }
+  return "missing";
+}
+
+function verdict(
+  onField: OnFieldDecision,
+  decision: OnFieldDecision,
+  reason: string
+): Pick<LbwDecision, "decision" | "overturned" | "reason"> {
+  return { decision, overturned: decision !== onField, reason };
+}
+
+export function evaluateLbw(trajectory: LbwTrajectory, options: LbwOptions): LbwDecision {
+  const impactDepth = PITCH_LENGTH_METERS - options.impactDistance;
+  const impactPoint =
+    pointAtDepth(trajectory.path, impactDepth) ??
+    trajectory.path[trajectory.path.length - 1] ??
+    ([trajectory.stumpsLine, trajectory.stumpsHeight, PITCH_LENGTH_METERS] as Vec3);
+
+  const pitching = trajectory.pitchingPoint
+    ? classifyPitching(trajectory.pitchingPoint, options.batterHand)
+    : null;
+  const impact = classifyImpact(impactPoint);
+  const wickets = trajectory.reachesStumps
+    ? classifyWickets(trajectory.stumpsLine, trajectory.stumpsHeight)
+    : null;
+  const impactOffSide = offSideOffset(impactPoint[0], options.batterHand) > 0;
+  const rows = { pitching, impact, wickets, impactPoint };
+
+  if (pitching === "outside-leg") {
+    return { ...rows, ...verdict(options.onField, "not-out", "Pitched outside leg stump.") };
+  }
+  // Outside the line of off stump is only out when no shot was offered.
+  if (impact === "outside" && (options.shotOffered || !impactOffSide)) {
+    return { ...rows, ...verdict(options.onField, "not-out", "Impact outside the line.") };
+  }
+  if (wickets == null) {
+    return {
+      ...rows,
+      ...verdict(
+        options.onField,
+        options.onField,
+        "The path could not be projected to the stumps: on-field decision stands."
+      )
+    };
+  }
+  if (wickets === "missing") {
+    return { ...rows, ...verdict(options.onField, "not-out", "Ball missing the stumps.") };
+  }
+  if (impact === "umpires-call" || wickets === "umpires-call") {
+    return {
+      ...rows,
+      ...verdict(options.onField, options.onField, "Umpire's call: on-field decision stands.")
+    };
+  }
+  return { ...rows, ...verdict(options.onField, "out", "All three criteria met.") };
+}
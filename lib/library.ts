@@ -0,0 +1,266 @@
+import { measuredValue } from "./confidence";
+import { LengthZone, classifyLength } from "./pitchMap";
+import { BowlerProfile, ProfileDelivery, startOfDay } from "./profiles";
+import type { Delivery } from "./session";
+import { PITCH_LENGTH_METERS } from "./trajectory";
+
+export interface LibrarySummary {
+  id: string;
+  clipName: string;
+  bowler: string;
+  profileId: string | null;
+  notes: string;
+  recordedAt: number;
+  savedAt: number;
+  // Null when the pace was only a placeholder; such entries drop out of pace filters.
+  releaseSpeedKph: number | null;
+  // Kept for profile trends without reading every clip; null for entries saved before.
+  summary: ProfileDelivery["summary"] | null;
+  confidence: ProfileDelivery["confidence"];
+  lengthZone: LengthZone | null;
+  angleCount: number;
+  thumbnail: Blob | null;
+}
+
+export interface LibraryFilters {
+  query: string;
+  bowler: string;
+  from: string;
+  to: string;
+  minPace: number | null;
+  maxPace: number | null;
+  length: LengthZone | "";
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = {
+  query: "",
+  bowler: "",
+  from: "",
+  to: "",
+  minPace: null,
+  maxPace: null,
+  length: ""
+};
+
+const DB_NAME = "hawkeye-library";
+const DB_VERSION = 2;
+// Summaries (with thumbnails) are listed on every visit; full deliveries with their clip
+// blobs are only read when one is reopened.
+const SUMMARY_STORE = "summaries";
+const DELIVERY_STORE = "deliveries";
+// Added in version 2.
+const PROFILE_STORE = "profiles";
+const THUMBNAIL_WIDTH = 192;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Library write was aborted."));
+  });
+}
+
+function openLibrary(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("This browser has no on-device storage."));
+  }
+  database ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      [SUMMARY_STORE, DELIVERY_STORE, PROFILE_STORE].forEach((store) => {
+        if (!req.result.objectStoreNames.contains(store)) {
+          req.result.createObjectStore(store, { keyPath: "id" });
+        }
+      });
+    };
+    let blocked = false;
+    req.onsuccess = () => {
+      // Opened after giving up on it; a later call opens it afresh.
+      if (blocked) {
+        req.result.close();
+        return;
+      }
+      // Let a newer version open in another tab; the next call here reopens.
+      req.result.onversionchange = () => {
+        req.result.close();
+        database = null;
+      };
+      resolve(req.result);
+    };
+    req.onerror = () => {
+      database = null;
+      reject(req.error);
+    };
+    req.onblocked = () => {
+      blocked = true;
+      database = null;
+      reject(
+        new Error("The library is open in another tab on an older version. Close it and reload.")
+      );
+    };
+  });
+  return database;
+}
+
+async function createThumbnail(delivery: Delivery): Promise<Blob | null> {
+  const clip = delivery.angles?.[0]?.file;
+  if (!clip) return null;
+  const url = URL.createObjectURL(clip);
+  try {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.preload = "auto";
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error("Clip could not be decoded."));
+      video.src = url;
+    });
+    const release = delivery.analysis.frames[delivery.analysis.keyMoments.releaseFrame];
+    await new Promise<void>((resolve) => {
+      video.onseeked = () => resolve();
+      video.currentTime = Math.min(release?.time ?? 0, Math.max(video.duration - 0.05, 0));
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(
+      (THUMBNAIL_WIDTH * (video.videoHeight || 9)) / (video.videoWidth || 16)
+    );
+    canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", 0.8)
+    );
+  } catch (err) {
+    console.error(err);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Stores a delivery with its clips and a thumbnail at the release frame. */
+export async function saveToLibrary(delivery: Delivery): Promise<LibrarySummary> {
+  const pitching = delivery.analysis.reconstruction?.pitchingPoint;
+  const summary: LibrarySummary = {
+    id: delivery.id,
+    clipName: delivery.clipName,
+    bowler: delivery.bowler,
+    profileId: delivery.profileId,
+    notes: delivery.notes,
+    recordedAt: delivery.recordedAt,
+    savedAt: Date.now(),
+    releaseSpeedKph: measuredValue(delivery.analysis, "releaseSpeedKph"),
+    summary: delivery.analysis.summary,
+    confidence: delivery.analysis.confidence,
+    lengthZone: pitching ? classifyLength(PITCH_LENGTH_METERS - pitching[2]) : null,
+    angleCount: delivery.angles?.length ?? 0,
+    thumbnail: await createThumbnail(delivery)
+  };
+
+  const db = await openLibrary();
+  // Ask for storage the browser will not evict under pressure; a refusal is harmless.
+  await navigator.storage?.persist?.().catch(() => false);
+  const tx = db.transaction([SUMMARY_STORE, DELIVERY_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(DELIVERY_STORE).put(delivery);
+  await transactionDone(tx);
+  return summary;
+}
+
+export async function listLibrary(): Promise<LibrarySummary[]> {
+  const db = await openLibrary();
+  const entries = await request<LibrarySummary[]>(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll()
+  );
+  return entries
+    .map((entry) => ({
+      ...entry,
+      profileId: entry.profileId ?? null,
+      // Entries saved before kept the placeholder pace.
+      releaseSpeedKph:
+        entry.confidence?.releaseSpeedKph?.provenance === "defaulted"
+          ? null
+          : entry.releaseSpeedKph,
+      summary: entry.summary ?? null,
+      confidence: entry.confidence ?? null
+    }))
+    .sort((a, b) => b.recordedAt - a.recordedAt);
+}
+
+export async function loadFromLibrary(id: string): Promise<Delivery | null> {
+  const db = await openLibrary();
+  const delivery = await request<Delivery | undefined>(
+    db.transaction(DELIVERY_STORE).objectStore(DELIVERY_STORE).get(id)
+  );
+  return delivery ? { ...delivery, profileId: delivery.profileId ?? null } : null;
+}
+
+export async function deleteFromLibrary(id: string): Promise<void> {
+  const db = await openLibrary();
+  const tx = db.transaction([SUMMARY_STORE, DELIVERY_STORE], "readwrite");
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DELIVERY_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function listProfiles(): Promise<BowlerProfile[]> {
+  const db = await openLibrary();
+  const profiles = await request<BowlerProfile[]>(
+    db.transaction(PROFILE_STORE).objectStore(PROFILE_STORE).getAll()
+  );
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveProfile(profile: BowlerProfile): Promise<void> {
+  const db = await openLibrary();
+  const tx = db.transaction(PROFILE_STORE, "readwrite");
+  tx.objectStore(PROFILE_STORE).put(profile);
+  await transactionDone(tx);
+}
+
+/** Deliveries attached to the profile keep its id, and simply stop showing in any profile. */
+export async function deleteProfile(id: string): Promise<void> {
+  const db = await openLibrary();
+  const tx = db.transaction(PROFILE_STORE, "readwrite");
+  tx.objectStore(PROFILE_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function storageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage == null || quota == null ? null : { usage, quota };
+}
+
+export function filterLibrary(
+  entries: LibrarySummary[],
+  filters: LibraryFilters
+): LibrarySummary[] {
+  const query = filters.query.trim().toLowerCase();
+  // Date inputs give local calendar days; the "to" day is inclusive.
+  const from = filters.from ? new Date(`${filters.from}T00:00`).getTime() : null;
+  const to = filters.to ? startOfDay(new Date(`${filters.to}T00:00`).getTime(), 1) : null;
+  return entries.filter(
+    (entry) =>
+      (!query ||
+        [entry.clipName, entry.bowler, entry.notes].some((text) =>
+          text.toLowerCase().includes(query)
+        )) &&
+      (!filters.bowler || entry.bowler === filters.bowler) &&
+      (from == null || entry.recordedAt >= from) &&
+      (to == null || entry.recordedAt < to) &&
+      (filters.minPace == null ||
+        (entry.releaseSpeedKph != null && entry.releaseSpeedKph >= filters.minPace)) &&
+      (filters.maxPace == null ||
+        (entry.releaseSpeedKph != null && entry.releaseSpeedKph <= filters.maxPace)) &&
+      (!filters.length || entry.lengthZone === filters.length)
+  );
+}
@@ -0,0 +1,166 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+
+export type LiveSource =
+  | { kind: "camera"; deviceId: string | null }
+  // A recorded clip played on a loop in place of a camera, for testing without the nets.
+  | { kind: "fake-video"; file: Blob };
+
+export interface LiveFeed {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+export interface RollingRecorder {
+  // Resolves with a clip running from several seconds before the call to `postRoll` after.
+  cut: (postRollSeconds: number) => Promise<Blob | null>;
+  stop: () => void;
+}
+
+const MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const RECORDING_BITS_PER_SECOND = 8_000_000;
+// A new segment starts this often and each is kept for two intervals, so there is always
+// one segment holding between one and two intervals of pre-roll.
+const SEGMENT_INTERVAL_MS = 4000;
+const MIN_KEYPOINT_SCORE = 0.3;
+// The bowling wrist must clear the shoulder by this share of the torso to count as a swing.
+const ARM_SWING_LIFT = 0.6;
+
+type CapturableVideo = HTMLVideoElement & { captureStream: () => MediaStream };
+
+/** Opens a camera, or starts a looping clip as a stand-in camera. */
+export async function openLiveSource(source: LiveSource): Promise<LiveFeed> {
+  if (source.kind === "camera") {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error("This browser cannot open a camera.");
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: {
+        deviceId: source.deviceId ? { exact: source.deviceId } : undefined,
+        width: { ideal: 1280 },
+        height: { ideal: 720 },
+        frameRate: { ideal: 60 }
+      }
+    });
+    return { stream, stop: () => stream.getTracks().forEach((track) => track.stop()) };
+  }
+
+  const url = URL.createObjectURL(source.file);
+  const video = document.createElement("video") as CapturableVideo;
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  video.src = url;
+  if (typeof video.captureStream !== "function") {
+    URL.revokeObjectURL(url);
+    throw new Error("This browser cannot stream a test video.");
+  }
+  try {
+    await video.play();
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+  const stream = video.captureStream();
+  return {
+    stream,
+    stop: () => {
+      stream.getTracks().forEach((track) => track.stop());
+      video.pause();
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  };
+}
+
+/**
+ * Keeps a rolling buffer of the feed as overlapping recordings. A MediaRecorder clip only
+ * decodes from its own start, so instead of trimming one long recording a fresh segment
+ * starts every few seconds and old ones are dropped; cutting holds on to the oldest.
+ */
+export function createRollingRecorder(stream: MediaStream): RollingRecorder {
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("This browser cannot record video.");
+  }
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser cannot encode WebM video.");
+
+  type Segment = { recorder: MediaRecorder; chunks: Blob[]; startedAt: number; held: boolean };
+  let segments: Segment[] = [];
+  let stopped = false;
+
+  const startSegment = () => {
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: RECORDING_BITS_PER_SECOND
+    });
+    const segment: Segment = { recorder, chunks: [], startedAt: Date.now(), held: false };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size) segment.chunks.push(event.data);
+    };
+    recorder.start();
+    segments.push(segment);
+  };
+
+  const rotate = () => {
+    const now = Date.now();
+    segments = segments.filter((segment) => {
+      if (segment.held || now - segment.startedAt < SEGMENT_INTERVAL_MS * 2) return true;
+      if (segment.recorder.state !== "inactive") segment.recorder.stop();
+      return false;
+    });
+    startSegment();
+  };
+
+  startSegment();
+  const timer = setInterval(rotate, SEGMENT_INTERVAL_MS);
+
+  return {
+    cut: async (postRollSeconds) => {
+      const segment = segments.find((entry) => !entry.held);
+      if (!segment) return null;
+      segment.held = true;
+      await new Promise((resolve) => setTimeout(resolve, postRollSeconds * 1000));
+      if (segment.recorder.state === "inactive") return null;
+      const done = new Promise<void>((resolve) => {
+        segment.recorder.onstop = () => resolve();
+      });
+      segment.recorder.stop();
+      await done;
+      segments = segments.filter((entry) => entry !== segment);
+      if (stopped || !segment.chunks.length) return null;
+      return new Blob(segment.chunks, { type: mimeType });
+    },
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+      segments.forEach((segment) => {
+        if (segment.recorder.state !== "inactive") segment.recorder.stop();
+      });
+      segments = [];
+    }
+  };
+}
+
+/**
+ * The top of the bowling action: either wrist held well above its shoulder, higher than the
+ * head, with the hips in view so a full figure is being followed.
+ */
+export function isDeliveryPose(keypoints: Keypoint[]): boolean {
+  const find = (name: string) => {
+    const point = keypoints.find((kp) => kp.name === name);
+    return point && (point.score ?? 0) >= MIN_KEYPOINT_SCORE ? point : null;
+  };
+  const nose = find("nose");
+  return (["left", "right"] as const).some((side) => {
+    const wrist = find(`${side}_wrist`);
+    const shoulder = find(`${side}_shoulder`);
+    const hip = find(`${side}_hip`);
+    if (!wrist || !shoulder || !hip) return false;
+    const torso = Math.abs(hip.y - shoulder.y);
+    if (!torso) return false;
+    const aboveHead = !nose || wrist.y < nose.y;
+    return aboveHead && shoulder.y - wrist.y >= torso * ARM_SWING_LIFT;
+  });
+}
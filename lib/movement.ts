@@ -0,0 +1,255 @@
+import type { FrameSnapshot } from "../components/VideoAnalyzer";
+import type { Vec3 } from "./trajectory";
+
+// Relative to a right-handed batter: "in" moves towards the pads, "out" towards the slips.
+export type MovementDirection = "in" | "out";
+
+export interface BallMovement {
+  // Lateral movement in the air by the bounce (the stumps for a full toss), in cm.
+  swingCm: number;
+  // Change of lateral heading off the pitch in degrees, null for a full toss.
+  deviationDegrees: number | null;
+}
+
+export interface MovementGuides {
+  // Where the ball would have gone had it held its release heading until it pitched.
+  unswung: Vec3[];
+  // Where it would have gone had it kept its arrival heading after the bounce.
+  undeviated: Vec3[];
+}
+
+export interface SeamEstimate {
+  // Seam tilt from upright in the image, degrees; positive leans clockwise as filmed.
+  orientation: number;
+  spinRpm: number | null;
+  frames: number;
+}
+
+// Movement smaller than this is within the noise of the fit.
+const MIN_SWING_CM = 2;
+const MIN_DEVIATION_DEGREES = 0.5;
+// Below this radius the seam is a pixel or two wide and cannot be picked out.
+const MIN_SEAM_RADIUS_PIXELS = 8;
+const SEAM_PATCH_SIZE = 32;
+// Share of the ball's radius searched for the seam, leaving out the rim.
+const SEAM_SEARCH_RATIO = 0.75;
+// Edges inside the ball must line up at least this well to read as a seam.
+const MIN_SEAM_COHERENCE = 0.25;
+const MAX_SEAM_FRAMES = 12;
+// Orientation is averaged over the first few readings after release.
+const RELEASE_SEAM_READINGS = 3;
+// A seam line looks the same every half turn, so steps near 90° per frame are aliased.
+const MAX_SEAM_STEP_DEGREES = 60;
+
+// Trajectory x is positive towards the off side of a right-hander.
+export function movementDirection(value: number | null): MovementDirection | null {
+  if (value == null || value === 0) return null;
+  return value > 0 ? "out" : "in";
+}
+
+export const formatSwing = (cm: number | null | undefined) => {
+  if (cm == null) return "--";
+  const direction = movementDirection(cm);
+  return direction ? `${Math.abs(cm).toFixed(0)} cm ${direction}swing` : "None";
+};
+
+export const formatDeviation = (degrees: number | null | undefined) => {
+  if (degrees == null) return "--";
+  const direction = movementDirection(degrees);
+  if (!direction) return "None";
+  return `${Math.abs(degrees).toFixed(1)}° ${direction === "in" ? "in" : "away"}`;
+};
+
+// Lateral metres per metre down the pitch between two points.
+const heading = (from: Vec3, to: Vec3) => (to[0] - from[0]) / (to[2] - from[2] || 1e-6);
+
+function bounceIndex(path: Vec3[], pitchingPoint: Vec3 | null): number | null {
+  if (!pitchingPoint || path.length < 3) return null;
+  const idx = path.reduce(
+    (best, point, index) =>
+      Math.hypot(point[0] - pitchingPoint[0], point[2] - pitchingPoint[2]) <
+      Math.hypot(path[best][0] - pitchingPoint[0], path[best][2] - pitchingPoint[2])
+        ? index
+        : best,
+    0
+  );
+  return idx > 0 && idx < path.length - 1 ? idx : null;
+}
+
+/**
+ * Straight-line references for the reconstructed path: the release heading carried to the
+ * bounce, and the arrival heading carried from the bounce to the end of the path. Heights
+ * follow the real path so the guides sit alongside it.
+ */
+export function movementGuides(path: Vec3[], pitchingPoint: Vec3 | null): MovementGuides | null {
+  if (path.length < 2) return null;
+  const bounce = bounceIndex(path, pitchingPoint);
+  const [release] = path;
+  const releaseHeading = heading(release, path[1]);
+  const unswung = path
+    .slice(0, (bounce ?? path.length - 1) + 1)
+    .map(
+      (point): Vec3 => [release[0] + releaseHeading * (point[2] - release[2]), point[1], point[2]]
+    );
+  if (bounce == null) return { unswung, undeviated: [] };
+
+  const landing = path[bounce];
+  const arrival = heading(path[bounce - 1], landing);
+  const undeviated = path
+    .slice(bounce)
+    .map((point): Vec3 => [landing[0] + arrival * (point[2] - landing[2]), point[1], point[2]]);
+  return { unswung, undeviated };
+}
+
+/** Swing in the air and deviation off the pitch, read from the reconstructed path. */
+export function measureMovement(path: Vec3[], pitchingPoint: Vec3 | null): BallMovement | null {
+  const guides = movementGuides(path, pitchingPoint);
+  if (!guides) return null;
+  const end = guides.unswung.length - 1;
+  const swingCm = (path[end][0] - guides.unswung[end][0]) * 100;
+
+  const bounce = bounceIndex(path, pitchingPoint);
+  let deviationDegrees: number | null = null;
+  if (bounce != null) {
+    const arrival = Math.atan(heading(path[bounce - 1], path[bounce]));
+    const departure = Math.atan(heading(path[bounce], path[bounce + 1]));
+    deviationDegrees = ((departure - arrival) * 180) / Math.PI;
+  }
+
+  return {
+    swingCm: Math.abs(swingCm) < MIN_SWING_CM ? 0 : swingCm,
+    deviationDegrees:
+      deviationDegrees != null && Math.abs(deviationDegrees) < MIN_DEVIATION_DEGREES
+        ? 0
+        : deviationDegrees
+  };
+}
+
+// Wraps an axial angle (a line, so 180° periodic) into -90°..90°.
+const wrapAxial = (degrees: number) => ((((degrees + 90) % 180) + 180) % 180) - 90;
+
+/**
+ * Dominant line through the middle of a ball patch from its structure tensor, as a tilt
+ * from upright. Returns null when the edges inside the ball do not line up.
+ */
+function seamTilt(image: ImageData): number | null {
+  const { width, height, data } = image;
+  const gray = (x: number, y: number) => {
+    const offset = (y * width + x) * 4;
+    return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+  };
+  const centre = (width - 1) / 2;
+  const reach = (width / 2) * SEAM_SEARCH_RATIO;
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      if (Math.hypot(x - centre, y - centre) > reach) continue;
+      const gx = gray(x + 1, y) - gray(x - 1, y);
+      const gy = gray(x, y + 1) - gray(x, y - 1);
+      xx += gx * gx;
+      yy += gy * gy;
+      xy += gx * gy;
+    }
+  }
+  const total = xx + yy;
+  if (total === 0) return null;
+  const coherence = Math.hypot(xx - yy, 2 * xy) / total;
+  if (coherence < MIN_SEAM_COHERENCE) return null;
+  // The seam runs across the strongest gradient; measured from vertical that is the
+  // gradient's own angle from horizontal.
+  return wrapAxial((Math.atan2(2 * xy, xx - yy) * 90) / Math.PI);
+}
+
+/**
+ * Reads the seam from the tracked ball between release and the bounce, where it is big
+ * enough in the frame. Orientation is taken just after release; spin comes from how fast
+ * the seam line turns between frames, so it only sees spin about the camera's axis. Stops
+ * seeking and gives null once `signal` is aborted.
+ */
+export async function measureSeam(
+  source: string,
+  frames: FrameSnapshot[],
+  releaseFrame: number,
+  pitchFrame: number,
+  signal?: AbortSignal
+): Promise<SeamEstimate | null> {
+  const candidates = frames
+    .slice(releaseFrame, pitchFrame + 1)
+    .filter(
+      (frame) =>
+        frame.ballPixel && frame.ballConfidence > 0 && frame.ballPixel[2] >= MIN_SEAM_RADIUS_PIXELS
+    )
+    .slice(0, MAX_SEAM_FRAMES);
+  if (!candidates.length) return null;
+
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error("Clip could not be decoded."));
+      video.src = source;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = SEAM_PATCH_SIZE;
+    canvas.height = SEAM_PATCH_SIZE;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return null;
+
+    const readings: { time: number; tilt: number }[] = [];
+    for (const frame of candidates) {
+      if (signal?.aborted) return null;
+      await new Promise<void>((resolve) => {
+        video.onseeked = () => resolve();
+        video.currentTime = frame.time;
+      });
+      const [x, y, radius] = frame.ballPixel as [number, number, number];
+      ctx.drawImage(
+        video,
+        x - radius,
+        y - radius,
+        radius * 2,
+        radius * 2,
+        0,
+        0,
+        SEAM_PATCH_SIZE,
+        SEAM_PATCH_SIZE
+      );
+      const tilt = seamTilt(ctx.getImageData(0, 0, SEAM_PATCH_SIZE, SEAM_PATCH_SIZE));
+      if (tilt != null) readings.push({ time: frame.time, tilt });
+    }
+    if (!readings.length) return null;
+
+    // Average lines on the doubled angle so -89° and 89° agree.
+    const early = readings.slice(0, RELEASE_SEAM_READINGS);
+    const sum = early.reduce(
+      (acc, { tilt }) => {
+        const doubled = (tilt * Math.PI) / 90;
+        return [acc[0] + Math.cos(doubled), acc[1] + Math.sin(doubled)];
+      },
+      [0, 0]
+    );
+    const orientation = (Math.atan2(sum[1], sum[0]) * 90) / Math.PI;
+
+    const steps = readings.slice(1).flatMap((reading, idx) => {
+      const dt = reading.time - readings[idx].time;
+      const step = Math.abs(wrapAxial(reading.tilt - readings[idx].tilt));
+      return dt > 0 ? [{ step, rate: step / dt }] : [];
+    });
+    const sorted = [...steps].sort((a, b) => a.rate - b.rate);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    const spinRpm =
+      steps.length >= 2 && median.step <= MAX_SEAM_STEP_DEGREES ? (median.rate / 360) * 60 : null;
+
+    return { orientation, spinRpm, frames: readings.length };
+  } catch (err) {
+    console.error(err);
+    return null;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+}
@@ -0,0 +1,244 @@
+import { CameraCalibration, pixelRay } from "./calibration";
+import type { Vec3 } from "./trajectory";
+
+export interface CameraRay {
+  origin: Vec3;
+  direction: Vec3;
+  weight: number;
+}
+
+export interface FusionFrame {
+  time: number;
+  ballPixel: [number, number, number] | null;
+  ballConfidence: number;
+}
+
+export interface FusionView {
+  calibration: CameraCalibration;
+  // Seconds added to this clip's timestamps to land on the reference clip's timeline.
+  offset: number;
+  frames: FusionFrame[];
+}
+
+export interface FusedObservation {
+  position: Vec3;
+  error: number;
+  confidence: number;
+  rays: (CameraRay | null)[];
+}
+
+export interface TimedSignal {
+  time: number;
+  value: number;
+}
+
+const SIGNAL_STEP_SECONDS = 0.01;
+const MAX_SYNC_LAG_SECONDS = 2;
+const AUDIO_WINDOW_SECONDS = 0.01;
+const AUDIO_BASELINE_WINDOWS = 10;
+const MOTION_STRIDE = 8;
+// Triangulation error at which an observation's weight in the trajectory fit halves.
+const ERROR_HALF_WEIGHT_METERS = 0.05;
+
+/**
+ * Least-squares intersection of several rays: the point minimising the weighted squared
+ * perpendicular distance to every ray. The error is the RMS of those distances.
+ */
+export function triangulateRays(rays: CameraRay[]): { point: Vec3; error: number } | null {
+  if (rays.length < 2) return null;
+  const a = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  const b = [0, 0, 0];
+  rays.forEach(({ origin, direction: d, weight }) => {
+    for (let row = 0; row < 3; row += 1) {
+      for (let col = 0; col < 3; col += 1) {
+        const projector = (row === col ? 1 : 0) - d[row] * d[col];
+        a[row * 3 + col] += weight * projector;
+        b[row] += weight * projector * origin[col];
+      }
+    }
+  });
+
+  const det =
+    a[0] * (a[4] * a[8] - a[5] * a[7]) -
+    a[1] * (a[3] * a[8] - a[5] * a[6]) +
+    a[2] * (a[3] * a[7] - a[4] * a[6]);
+  // Near-parallel rays give no usable depth.
+  if (Math.abs(det) < 1e-6) return null;
+  const solve = (column: number) => {
+    const m = [...a];
+    m[column] = b[0];
+    m[3 + column] = b[1];
+    m[6 + column] = b[2];
+    return (
+      (m[0] * (m[4] * m[8] - m[5] * m[7]) -
+        m[1] * (m[3] * m[8] - m[5] * m[6]) +
+        m[2] * (m[3] * m[7] - m[4] * m[6])) /
+      det
+    );
+  };
+  const point: Vec3 = [solve(0), solve(1), solve(2)];
+
+  const squared = rays.reduce((acc, { origin, direction: d }) => {
+    const offset: Vec3 = [point[0] - origin[0], point[1] - origin[1], point[2] - origin[2]];
+    const along = offset[0] * d[0] + offset[1] * d[1] + offset[2] * d[2];
+    const perpendicular = offset.map((value, idx) => value - along * d[idx]);
+    return acc + perpendicular.reduce((sum, value) => sum + value * value, 0);
+  }, 0);
+  return { point, error: Math.sqrt(squared / rays.length) };
+}
+
+function medianInterval(frames: FusionFrame[]): number {
+  const gaps = frames
+    .slice(1)
+    .map((frame, idx) => frame.time - frames[idx].time)
+    .filter((gap) => gap > 0)
+    .sort((x, y) => x - y);
+  return gaps[Math.floor(gaps.length / 2)] ?? 0.033;
+}
+
+function frameAt(frames: FusionFrame[], time: number, tolerance: number): FusionFrame | null {
+  return frames.reduce<FusionFrame | null>((best, frame) => {
+    if (Math.abs(frame.time - time) > tolerance) return best;
+    return !best || Math.abs(frame.time - time) < Math.abs(best.time - time) ? frame : best;
+  }, null);
+}
+
+/**
+ * Triangulates the ball for every frame of the reference view (index 0) from all views
+ * that tracked it at the matching instant. Frames seen by fewer than two views are null.
+ */
+export function fuseCameraViews(views: FusionView[]): (FusedObservation | null)[] {
+  const [reference] = views;
+  if (!reference || views.length < 2) return [];
+  const tolerances = views.map((view) => medianInterval(view.frames) * 0.6);
+
+  return reference.frames.map((referenceFrame) => {
+    const time = referenceFrame.time + reference.offset;
+    const rays = views.map((view, idx) => {
+      const tolerance = Math.max(tolerances[0], tolerances[idx]);
+      const frame = frameAt(view.frames, time - view.offset, tolerance);
+      if (!frame?.ballPixel || frame.ballConfidence <= 0) return null;
+      const ray = pixelRay(view.calibration, [frame.ballPixel[0], frame.ballPixel[1]]);
+      return { ...ray, weight: frame.ballConfidence };
+    });
+    const usable = rays.filter((ray): ray is CameraRay => ray != null);
+    const solved = triangulateRays(usable);
+    if (!solved) return null;
+    const meanConfidence = usable.reduce((acc, ray) => acc + ray.weight, 0) / usable.length;
+    return {
+      position: solved.point,
+      error: solved.error,
+      confidence: meanConfidence / (1 + solved.error / ERROR_HALF_WEIGHT_METERS),
+      rays
+    };
+  });
+}
+
+/** Mean absolute luminance change between two frames, sampled on a coarse grid. */
+export function motionEnergy(frame: ImageData, previous: ImageData | null): number {
+  if (!previous || previous.width !== frame.width || previous.height !== frame.height) return 0;
+  let total = 0;
+  let count = 0;
+  for (let offset = 0; offset < frame.data.length; offset += 4 * MOTION_STRIDE) {
+    const current =
+      frame.data[offset] * 0.299 +
+      frame.data[offset + 1] * 0.587 +
+      frame.data[offset + 2] * 0.114;
+    const before =
+      previous.data[offset] * 0.299 +
+      previous.data[offset + 1] * 0.587 +
+      previous.data[offset + 2] * 0.114;
+    total += Math.abs(current - before);
+    count += 1;
+  }
+  return count ? total / count : 0;
+}
+
+function resample(signal: TimedSignal[], start: number, end: number): number[] {
+  const output: number[] = [];
+  let idx = 0;
+  for (let time = start; time <= end; time += SIGNAL_STEP_SECONDS) {
+    while (idx < signal.length - 2 && signal[idx + 1].time < time) idx += 1;
+    const left = signal[idx];
+    const right = signal[Math.min(idx + 1, signal.length - 1)];
+    const span = right.time - left.time;
+    const ratio = span > 0 ? Math.min(Math.max((time - left.time) / span, 0), 1) : 0;
+    output.push(left.value + (right.value - left.value) * ratio);
+  }
+  const mean = output.reduce((acc, value) => acc + value, 0) / (output.length || 1);
+  const spread = Math.sqrt(
+    output.reduce((acc, value) => acc + (value - mean) ** 2, 0) / (output.length || 1)
+  );
+  return output.map((value) => (spread > 0 ? (value - mean) / spread : 0));
+}
+
+/**
+ * Offset (seconds) to add to `other` timestamps so its motion profile lines up with the
+ * reference, found by normalised cross-correlation.
+ */
+export function estimateOffsetFromMotion(
+  reference: TimedSignal[],
+  other: TimedSignal[]
+): number | null {
+  if (reference.length < 4 || other.length < 4) return null;
+  const start = Math.min(reference[0].time, other[0].time);
+  const end = Math.max(reference[reference.length - 1].time, other[other.length - 1].time);
+  const a = resample(reference, start, end);
+  const b = resample(other, start, end);
+  const maxLag = Math.round(MAX_SYNC_LAG_SECONDS / SIGNAL_STEP_SECONDS);
+
+  let bestLag = 0;
+  let bestScore = -Infinity;
+  for (let lag = -maxLag; lag <= maxLag; lag += 1) {
+    let score = 0;
+    let overlap = 0;
+    for (let idx = 0; idx < a.length; idx += 1) {
+      const shifted = idx - lag;
+      if (shifted < 0 || shifted >= b.length) continue;
+      score += a[idx] * b[shifted];
+      overlap += 1;
+    }
+    if (overlap < a.length / 4) continue;
+    score /= overlap;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  return bestScore === -Infinity ? null : bestLag * SIGNAL_STEP_SECONDS;
+}
+
+/** Time of the sharpest audio transient in a clip, e.g. a clap or ball-on-bat. */
+export async function detectAudioOnset(file: Blob): Promise<number | null> {
+  if (typeof OfflineAudioContext === "undefined") return null;
+  try {
+    const context = new OfflineAudioContext(1, 1, 44100);
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const windowSize = Math.max(1, Math.round(buffer.sampleRate * AUDIO_WINDOW_SECONDS));
+    const energy: number[] = [];
+    for (let start = 0; start + windowSize <= samples.length; start += windowSize) {
+      let sum = 0;
+      for (let idx = start; idx < start + windowSize; idx += 1) sum += samples[idx] ** 2;
+      energy.push(Math.sqrt(sum / windowSize));
+    }
+
+    let bestWindow = -1;
+    let bestRise = 0;
+    energy.forEach((value, idx) => {
+      if (idx < AUDIO_BASELINE_WINDOWS) return;
+      const baseline =
+        energy.slice(idx - AUDIO_BASELINE_WINDOWS, idx).reduce((acc, level) => acc + level, 0) /
+        AUDIO_BASELINE_WINDOWS;
+      const rise = value - baseline;
+      if (rise > bestRise) {
+        bestRise = rise;
+        bestWindow = idx;
+      }
+    });
+    return bestWindow < 0 ? null : bestWindow * AUDIO_WINDOW_SECONDS;
+  } catch {
+    // No audio track, or one the browser cannot decode: there is just no audio cue.
+    return null;
+  }
+}
@@ -0,0 +1,211 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { FrameSnapshot } from "../components/VideoAnalyzer";
+import { BowlingArm, bowlingArm } from "./biomechanics";
+import { CameraCalibration, locateOnGround, projectToImage } from "./calibration";
+import { POPPING_CREASE_METERS } from "./lbw";
+
+export type PixelLine = [[number, number], [number, number]];
+
+export interface FrontFootCheck {
+  landingFrame: number;
+  foot: BowlingArm;
+  source: "calibration" | "marked";
+  // Popping crease in video pixels, as drawn on the landing still.
+  creaseLine: PixelLine;
+  // The back of the heel where the model tracks it (BlazePose); otherwise the ankle.
+  heel: [number, number];
+  // How far the heel landed behind the crease (negative when over it): metres when the
+  // camera is calibrated, video pixels against a marked line.
+  margin: number;
+  unit: "m" | "px";
+  legal: boolean;
+  // JPEG data URL of the landing frame, zoomed on the foot, once rendered.
+  still: string | null;
+}
+
+// Landing comes in the last few tenths of a second before release.
+const LANDING_WINDOW_SECONDS = 0.4;
+// The ankle counts as planted once it is within this share of the leg length of its lowest.
+const PLANTED_TOLERANCE = 0.04;
+const MIN_KEYPOINT_SCORE = 0.3;
+// The back of the heel sits a few centimetres behind the ankle joint.
+const HEEL_BEHIND_ANKLE_METERS = 0.05;
+const RETURN_CREASE_OFFSET = 1.32;
+const STILL_SIZE = 320;
+const STILL_ZOOM = 0.35;
+
+const joint = (keypoints: Keypoint[], name: string) => {
+  const point = keypoints.find((kp) => kp.name === name);
+  return point && (point.score ?? 0) >= MIN_KEYPOINT_SCORE ? point : null;
+};
+
+const otherSide = (side: BowlingArm): BowlingArm => (side === "right" ? "left" : "right");
+
+/** The bowler's popping crease projected into the video through the calibration. */
+export function calibratedCreaseLine(calibration: CameraCalibration): PixelLine {
+  return [
+    projectToImage(calibration, [-RETURN_CREASE_OFFSET, 0, POPPING_CREASE_METERS]),
+    projectToImage(calibration, [RETURN_CREASE_OFFSET, 0, POPPING_CREASE_METERS])
+  ];
+}
+
+/**
+ * The frame the front foot (opposite the bowling arm) plants in the delivery stride: the
+ * first frame before release where its ankle is as low in the image as it gets.
+ */
+export function findFrontFootLanding(
+  frames: FrameSnapshot[],
+  releaseFrame: number
+): { frame: number; foot: BowlingArm } | null {
+  const release = frames[releaseFrame];
+  const arm = release ? bowlingArm(release.keypoints) : null;
+  if (!arm) return null;
+  const foot = otherSide(arm);
+
+  const candidates = frames
+    .map((frame, idx) => ({
+      idx,
+      ankle: joint(frame.keypoints, `${foot}_ankle`),
+      hip: joint(frame.keypoints, `${foot}_hip`)
+    }))
+    .filter(
+      ({ idx, ankle }) =>
+        ankle &&
+        idx <= releaseFrame &&
+        frames[idx].time >= release.time - LANDING_WINDOW_SECONDS
+    );
+  if (!candidates.length) return null;
+
+  const lowest = candidates.reduce((best, entry) =>
+    (entry.ankle?.y ?? 0) > (best.ankle?.y ?? 0) ? entry : best
+  );
+  const legLength = lowest.hip && lowest.ankle ? Math.abs(lowest.ankle.y - lowest.hip.y) : 0;
+  const tolerance = Math.max(legLength * PLANTED_TOLERANCE, 2);
+  const planted = candidates.find(
+    (entry) => (entry.ankle?.y ?? 0) >= (lowest.ankle?.y ?? 0) - tolerance
+  );
+  return planted ? { frame: planted.idx, foot } : null;
+}
+
+// Positive on one side of the line, negative on the other.
+function sideOfLine([[x1, y1], [x2, y2]]: PixelLine, [x, y]: [number, number]): number {
+  const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+  return ((x2 - x1) * (y - y1) - (y2 - y1) * (x - x1)) / length;
+}
+
+/**
+ * Judges the front foot at landing against the popping crease. With a calibration the heel
+ * is placed on the pitch and measured in metres; against a marked line the side the back
+ * foot is on counts as behind the crease. Some part of the foot must land behind the line.
+ */
+export function checkFrontFoot(
+  frames: FrameSnapshot[],
+  releaseFrame: number,
+  crease: { calibration: CameraCalibration | null; marked: PixelLine | null }
+): FrontFootCheck | null {
+  const landing = findFrontFootLanding(frames, releaseFrame);
+  if (!landing || (!crease.calibration && !crease.marked)) return null;
+  const { keypoints } = frames[landing.frame];
+  const ankle = joint(keypoints, `${landing.foot}_ankle`);
+  if (!ankle) return null;
+  const tracked = joint(keypoints, `${landing.foot}_heel`);
+  const heel: [number, number] = tracked ? [tracked.x, tracked.y] : [ankle.x, ankle.y];
+  const base = { landingFrame: landing.frame, foot: landing.foot, heel, still: null };
+
+  if (crease.marked) {
+    const back =
+      joint(keypoints, `${otherSide(landing.foot)}_ankle`) ??
+      joint(frames[0].keypoints, `${landing.foot}_hip`);
+    if (!back) return null;
+    const behind = Math.sign(sideOfLine(crease.marked, [back.x, back.y])) || 1;
+    const margin = sideOfLine(crease.marked, heel) * behind;
+    return {
+      ...base,
+      source: "marked",
+      creaseLine: crease.marked,
+      margin,
+      unit: "px",
+      legal: margin > 0
+    };
+  }
+
+  const calibration = crease.calibration as CameraCalibration;
+  const ground = locateOnGround(calibration, heel);
+  if (!ground) return null;
+  const margin =
+    POPPING_CREASE_METERS - (ground[2] - (tracked ? 0 : HEEL_BEHIND_ANKLE_METERS));
+  return {
+    ...base,
+    source: "calibration",
+    creaseLine: calibratedCreaseLine(calibration),
+    margin,
+    unit: "m",
+    legal: margin > 0
+  };
+}
+
+/**
+ * Renders the landing frame cropped around the heel, with the crease line drawn in. Gives
+ * null without decoding further once `signal` is aborted.
+ */
+export async function renderLandingStill(
+  source: string,
+  time: number,
+  check: FrontFootCheck,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error("Clip could not be decoded."));
+      video.src = source;
+    });
+    if (signal?.aborted) return null;
+    await new Promise<void>((resolve) => {
+      video.onseeked = () => resolve();
+      video.currentTime = time;
+    });
+    if (signal?.aborted) return null;
+
+    const crop = Math.round((video.videoHeight || 720) * STILL_ZOOM);
+    const left = Math.min(
+      Math.max(check.heel[0] - crop / 2, 0),
+      Math.max((video.videoWidth || 1280) - crop, 0)
+    );
+    const top = Math.min(
+      Math.max(check.heel[1] - crop / 2, 0),
+      Math.max((video.videoHeight || 720) - crop, 0)
+    );
+    const scale = STILL_SIZE / crop;
+    const canvas = document.createElement("canvas");
+    canvas.width = STILL_SIZE;
+    canvas.height = STILL_SIZE;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(video, left, top, crop, crop, 0, 0, STILL_SIZE, STILL_SIZE);
+
+    const toStill = ([x, y]: [number, number]) => [(x - left) * scale, (y - top) * scale];
+    const [start, end] = check.creaseLine.map(toStill);
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = check.legal ? "#7dffb3" : "#ff6b6b";
+    ctx.beginPath();
+    ctx.moveTo(start[0], start[1]);
+    ctx.lineTo(end[0], end[1]);
+    ctx.stroke();
+    const [heelX, heelY] = toStill(check.heel);
+    ctx.fillStyle = "#ffcf64";
+    ctx.beginPath();
+    ctx.arc(heelX, heelY, 6, 0, Math.PI * 2);
+    ctx.fill();
+    return canvas.toDataURL("image/jpeg", 0.85);
+  } catch (err) {
+    console.error(err);
+    return null;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+}
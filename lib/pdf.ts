@@ -0,0 +1,194 @@
+// A minimal PDF writer for printable reports: A4 pages with Helvetica text, filled boxes
+// and JPEG images. Enough for the coaching report without pulling in a PDF library.
+
+export interface PdfImage {
+  // Baseline JPEG bytes, embedded as-is.
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+type Color = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Color;
+}
+
+export interface PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  addPage: () => void;
+  // Positions are in points from the top left of the page; text is placed by its baseline.
+  text: (x: number, y: number, value: string, options?: TextOptions) => void;
+  // Wraps to `maxWidth` and returns the y below the last line.
+  paragraph: (
+    x: number,
+    y: number,
+    maxWidth: number,
+    value: string,
+    options?: TextOptions
+  ) => number;
+  rect: (x: number, y: number, width: number, height: number, fill: Color) => void;
+  image: (image: PdfImage, x: number, y: number, width: number, height: number) => void;
+  toBlob: () => Blob;
+}
+
+const A4: [number, number] = [595.28, 841.89];
+const LINE_SPACING = 1.35;
+// Mean Helvetica glyph width per point of type; wrapping only needs to be close.
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+// Characters outside ASCII that the report uses, in WinAnsiEncoding.
+const WIN_ANSI: Record<string, number> = {
+  "…": 0x85,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "°": 0xb0,
+  "±": 0xb1,
+  "×": 0xd7,
+  é: 0xe9
+};
+
+function encodeText(value: string): string {
+  return Array.from(value)
+    .map((char) => {
+      const code = WIN_ANSI[char] ?? char.charCodeAt(0);
+      if (code > 0xff || (code < 0x20 && char !== "\t")) return "?";
+      if (char === "(" || char === ")" || char === "\\") return `\\${char}`;
+      return code < 0x7f ? char : `\\${code.toString(8).padStart(3, "0")}`;
+    })
+    .join("");
+}
+
+const rgb = ([r, g, b]: Color) => [r, g, b].map((part) => (part / 255).toFixed(3)).join(" ");
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+export function createPdfDocument(): PdfDocument {
+  const [width, height] = A4;
+  const pages: { content: string[]; images: number[] }[] = [];
+  const images: PdfImage[] = [];
+  const current = () => pages[pages.length - 1];
+  const draw = (command: string) => current().content.push(command);
+
+  const text = (x: number, y: number, value: string, options: TextOptions = {}) => {
+    const { size = 10, bold = false, color = [20, 24, 38] } = options;
+    draw(
+      `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(color)} rg ` +
+        `${num(x)} ${num(height - y)} Td (${encodeText(value)}) Tj ET`
+    );
+  };
+
+  const paragraph = (
+    x: number,
+    y: number,
+    maxWidth: number,
+    value: string,
+    options: TextOptions = {}
+  ) => {
+    const size = options.size ?? 10;
+    const perLine = Math.max(1, Math.floor(maxWidth / (size * AVERAGE_GLYPH_WIDTH)));
+    const lines = value.split(/\r?\n/).flatMap((block) =>
+      block.split(/\s+/).reduce<string[]>(
+        (acc, word) => {
+          const last = acc[acc.length - 1];
+          if (!last) acc[acc.length - 1] = word;
+          else if (last.length + word.length + 1 <= perLine)
+            acc[acc.length - 1] = `${last} ${word}`;
+          else acc.push(word);
+          return acc;
+        },
+        [""]
+      )
+    );
+    lines.forEach((entry, idx) => text(x, y + idx * size * LINE_SPACING, entry, options));
+    return y + lines.length * size * LINE_SPACING;
+  };
+
+  return {
+    width,
+    height,
+    addPage: () => pages.push({ content: [], images: [] }),
+    text,
+    paragraph,
+    rect: (x, y, w, h, fill) =>
+      draw(`${rgb(fill)} rg ${num(x)} ${num(height - y - h)} ${num(w)} ${num(h)} re f`),
+    image: (image, x, y, w, h) => {
+      images.push(image);
+      current().images.push(images.length - 1);
+      draw(
+        `q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(height - y - h)} cm ` +
+          `/Im${images.length - 1} Do Q`
+      );
+    },
+    toBlob: () => {
+      // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then images, then each page
+      // followed by its content stream.
+      const imageBase = 5;
+      const pageBase = imageBase + images.length;
+      const encoder = new TextEncoder();
+      const parts: Uint8Array[] = [];
+      const offsets: number[] = [];
+      let length = 0;
+      const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+      };
+      const object = (id: number, body: string, stream?: Uint8Array) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+          write("stream\n");
+          write(stream);
+          write("\nendstream\n");
+        }
+        write("endobj\n");
+      };
+
+      write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+      const kids = pages.map((_, idx) => `${pageBase + idx * 2} 0 R`).join(" ");
+      object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+      object(2, `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+      ["Helvetica", "Helvetica-Bold"].forEach((font, idx) =>
+        object(
+          3 + idx,
+          `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`
+        )
+      );
+      images.forEach((image, idx) =>
+        object(
+          imageBase + idx,
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+            "/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode " +
+            `/Length ${image.data.length} >>`,
+          image.data
+        )
+      );
+      pages.forEach((page, idx) => {
+        const id = pageBase + idx * 2;
+        const xObjects = page.images.map((image) => `/Im${image} ${imageBase + image} 0 R`);
+        object(
+          id,
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> ` +
+            `/XObject << ${xObjects.join(" ")} >> >> /Contents ${id + 1} 0 R >>`
+        );
+        // Content streams stay ASCII: non-ASCII text was escaped when it was drawn.
+        const content = encoder.encode(page.content.join("\n"));
+        object(id + 1, `<< /Length ${content.length} >>`, content);
+      });
+
+      const xref = length;
+      const count = pageBase + pages.length * 2;
+      write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+      for (let id = 1; id < count; id += 1) {
+        write(`${offsets[id].toString().padStart(10, "0")} 00000 n \n`);
+      }
+      write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+      return new Blob(parts, { type: "application/pdf" });
+    }
+  };
+}
@@ -0,0 +1,212 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+
+// One person followed across the sampled frames; null where they were not detected.
+export interface PoseTrack {
+  id: number;
+  poses: (Keypoint[] | null)[];
+}
+
+export interface BowlerLock {
+  track: number;
+  // People followed through the clip, the bowler included.
+  tracks: number;
+  // Picked by hand rather than from the arm swing.
+  manual: boolean;
+}
+
+const MIN_KEYPOINT_SCORE = 0.3;
+// Poses this alike or better continue a track.
+const MIN_MATCH_SIMILARITY = 0.3;
+// A track survives this many frames without a sighting, e.g. while crossing the umpire.
+const MAX_MISSED_FRAMES = 6;
+// Spread of the keypoint similarity, as a share of the person's size.
+const KEYPOINT_FALLOFF = 0.25;
+// Wrist travel with the arm over the top of the shoulder counts this many times over.
+const OVERARM_WEIGHT = 3;
+// Clicks this far outside a person's box, as a share of its height, still pick them.
+const PICK_MARGIN = 0.15;
+
+type Box = { left: number; top: number; right: number; bottom: number };
+
+const visible = (pose: Keypoint[]) =>
+  pose.filter((point) => (point.score ?? 0) >= MIN_KEYPOINT_SCORE);
+
+function boxOf(pose: Keypoint[]): Box | null {
+  const points = visible(pose);
+  if (!points.length) return null;
+  return points.reduce(
+    (box, point) => ({
+      left: Math.min(box.left, point.x),
+      top: Math.min(box.top, point.y),
+      right: Math.max(box.right, point.x),
+      bottom: Math.max(box.bottom, point.y)
+    }),
+    { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity }
+  );
+}
+
+function intersectionOverUnion(a: Box, b: Box): number {
+  const width = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+  const height = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+  if (width <= 0 || height <= 0) return 0;
+  const area = (box: Box) => (box.right - box.left) * (box.bottom - box.top);
+  const overlap = width * height;
+  return overlap / (area(a) + area(b) - overlap || 1);
+}
+
+/**
+ * Box overlap, or keypoint similarity when that is higher: a bowler in their stride moves
+ * far enough between frames that the boxes barely overlap while the joints still line up.
+ */
+function similarity(a: Keypoint[], b: Keypoint[]): number {
+  const boxA = boxOf(a);
+  const boxB = boxOf(b);
+  if (!boxA || !boxB) return 0;
+  const size = Math.max(
+    boxA.bottom - boxA.top,
+    boxA.right - boxA.left,
+    boxB.bottom - boxB.top,
+    boxB.right - boxB.left,
+    1
+  );
+  const pairs = visible(a).flatMap((point) => {
+    const other = visible(b).find((entry) => entry.name === point.name);
+    return other ? [Math.hypot(point.x - other.x, point.y - other.y) / size] : [];
+  });
+  const keypointSimilarity = pairs.length
+    ? pairs.reduce((sum, gap) => sum + Math.exp(-(gap * gap) / (2 * KEYPOINT_FALLOFF ** 2)), 0) /
+      pairs.length
+    : 0;
+  return Math.max(intersectionOverUnion(boxA, boxB), keypointSimilarity);
+}
+
+/**
+ * Links the people detected in each frame into tracks, greedily pairing the most alike
+ * pose and track first. Ids follow first appearance, so the same samples always give the
+ * same tracks.
+ */
+export function trackPeople(people: Keypoint[][][]): PoseTrack[] {
+  const tracks: (PoseTrack & { last: Keypoint[]; lastFrame: number })[] = [];
+
+  people.forEach((poses, frameIndex) => {
+    const live = tracks.filter((track) => frameIndex - track.lastFrame <= MAX_MISSED_FRAMES);
+    const pairs = live
+      .flatMap((track) =>
+        poses.map((pose, poseIndex) => ({ track, poseIndex, score: similarity(track.last, pose) }))
+      )
+      .filter((pair) => pair.score >= MIN_MATCH_SIMILARITY)
+      .sort((a, b) => b.score - a.score);
+    const taken = new Set<number>();
+    const matched = new Set<PoseTrack>();
+    pairs.forEach(({ track, poseIndex }) => {
+      if (taken.has(poseIndex) || matched.has(track)) return;
+      taken.add(poseIndex);
+      matched.add(track);
+      track.poses[frameIndex] = poses[poseIndex];
+      track.last = poses[poseIndex];
+      track.lastFrame = frameIndex;
+    });
+    poses.forEach((pose, poseIndex) => {
+      if (taken.has(poseIndex) || !boxOf(pose)) return;
+      const track = {
+        id: tracks.length,
+        poses: people.map((): Keypoint[] | null => null),
+        last: pose,
+        lastFrame: frameIndex
+      };
+      track.poses[frameIndex] = pose;
+      tracks.push(track);
+    });
+  });
+
+  return tracks.map(({ id, poses }) => ({ id, poses }));
+}
+
+// How far one wrist travels around its shoulder between two poses, in torso lengths.
+function wristTravel(previous: Keypoint[], pose: Keypoint[]): number {
+  const find = (keypoints: Keypoint[], name: string) =>
+    visible(keypoints).find((point) => point.name === name);
+  return Math.max(
+    ...(["left", "right"] as const).map((side) => {
+      const wrist = find(pose, `${side}_wrist`);
+      const shoulder = find(pose, `${side}_shoulder`);
+      const hip = find(pose, `${side}_hip`);
+      const lastWrist = find(previous, `${side}_wrist`);
+      const lastShoulder = find(previous, `${side}_shoulder`);
+      if (!wrist || !shoulder || !hip || !lastWrist || !lastShoulder) return 0;
+      const torso = Math.abs(hip.y - shoulder.y);
+      if (!torso) return 0;
+      const travel =
+        Math.hypot(
+          wrist.x - shoulder.x - (lastWrist.x - lastShoulder.x),
+          wrist.y - shoulder.y - (lastWrist.y - lastShoulder.y)
+        ) / torso;
+      return wrist.y < shoulder.y ? travel * OVERARM_WEIGHT : travel;
+    })
+  );
+}
+
+/**
+ * The bowler is whoever swings an arm over the top the most. Umpires and non-strikers
+ * barely move their wrists about their shoulders, and a batter's hands stay low.
+ */
+export function pickBowler(tracks: PoseTrack[]): number | null {
+  const scored = tracks.map((track) => {
+    let score = 0;
+    let previous: Keypoint[] | null = null;
+    for (const pose of track.poses) {
+      if (pose && previous) score += wristTravel(previous, pose);
+      previous = pose ?? previous;
+    }
+    return { id: track.id, score };
+  });
+  const best = scored.reduce<{ id: number; score: number } | null>(
+    (top, entry) => (!top || entry.score > top.score ? entry : top),
+    null
+  );
+  return best?.id ?? null;
+}
+
+/** The track whose pose at this frame is under the click; overlapping people go by centre. */
+export function trackAtPixel(
+  tracks: PoseTrack[],
+  frameIndex: number,
+  pixel: [number, number]
+): number | null {
+  const [x, y] = pixel;
+  const hits = tracks.flatMap((track) => {
+    const pose = track.poses[frameIndex];
+    const box = pose ? boxOf(pose) : null;
+    if (!box) return [];
+    const margin = (box.bottom - box.top) * PICK_MARGIN;
+    const dx = Math.max(box.left - margin - x, 0, x - box.right - margin);
+    const dy = Math.max(box.top - margin - y, 0, y - box.bottom - margin);
+    if (dx > 0 || dy > 0) return [];
+    const gap = Math.hypot(x - (box.left + box.right) / 2, y - (box.top + box.bottom) / 2);
+    return [{ id: track.id, gap }];
+  });
+  return hits.sort((a, b) => a.gap - b.gap)[0]?.id ?? null;
+}
+
+/**
+ * Keeps only one person's keypoints in every frame: the chosen track when it still exists,
+ * otherwise the automatic pick. Frames where that person was not seen get no keypoints.
+ */
+export function lockOnBowler(
+  people: Keypoint[][][],
+  choice: number | null
+): { keypoints: Keypoint[][]; lock: BowlerLock | null } {
+  // With never more than one person in view there is nobody to tell apart.
+  if (people.every((poses) => poses.length <= 1)) {
+    return { keypoints: people.map((poses) => poses[0] ?? []), lock: null };
+  }
+  const tracks = trackPeople(people);
+  const manual = choice != null && tracks.some((track) => track.id === choice);
+  const id = manual ? choice : pickBowler(tracks);
+  const bowler = tracks.find((track) => track.id === id);
+  if (!bowler) return { keypoints: people.map(() => []), lock: null };
+  return {
+    keypoints: bowler.poses.map((pose) => pose ?? []),
+    lock: { track: bowler.id, tracks: tracks.length, manual }
+  };
+}
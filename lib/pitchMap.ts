@@ -0,0 +1,58 @@
+import { measuredValue } from "./confidence";
+import type { Delivery } from "./session";
+import { PITCH_LENGTH_METERS } from "./trajectory";
+
+export type LengthZone = "yorker" | "full" | "good" | "short";
+
+export interface DeliveryMark {
+  id: string;
+  ball: number;
+  over: number;
+  // Null when the pace was not measured.
+  speedKph: number | null;
+  zone: LengthZone | null;
+  // Lateral offset and distance from the batter's stumps where the ball pitched.
+  pitching: { line: number; length: number } | null;
+  // Where the ball crossed the plane of the batter's stumps; null when it never got there.
+  stumps: { line: number; height: number } | null;
+}
+
+export const BALLS_PER_OVER = 6;
+
+// Upper bound of each zone, measured back from the batter's stumps.
+export const LENGTH_ZONES: { zone: LengthZone; label: string; to: number }[] = [
+  { zone: "yorker", label: "Yorker", to: 2 },
+  { zone: "full", label: "Full", to: 6 },
+  { zone: "good", label: "Good", to: 8 },
+  { zone: "short", label: "Short", to: Infinity }
+];
+
+export function classifyLength(length: number): LengthZone {
+  return (LENGTH_ZONES.find((entry) => length < entry.to) ?? LENGTH_ZONES[3]).zone;
+}
+
+/**
+ * Pitch map and beehive positions for every delivery with a reconstructed trajectory.
+ * Full tosses have no pitching point and only appear on the beehive.
+ */
+export function deliveryMarks(deliveries: Delivery[]): DeliveryMark[] {
+  return deliveries.flatMap((delivery, idx) => {
+    const reconstruction = delivery.analysis.reconstruction;
+    if (!reconstruction) return [];
+    const point = reconstruction.pitchingPoint;
+    const length = point ? PITCH_LENGTH_METERS - point[2] : null;
+    return [
+      {
+        id: delivery.id,
+        ball: idx + 1,
+        over: Math.floor(idx / BALLS_PER_OVER) + 1,
+        speedKph: measuredValue(delivery.analysis, "releaseSpeedKph"),
+        zone: length == null ? null : classifyLength(length),
+        pitching: point && length != null ? { line: point[0], length } : null,
+        stumps: reconstruction.reachesStumps
+          ? { line: reconstruction.stumpsLine, height: reconstruction.stumpsHeight }
+          : null
+      }
+    ];
+  });
+}
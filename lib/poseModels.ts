@@ -0,0 +1,148 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+
+export type PoseModel =
+  | "movenet-multipose"
+  | "movenet-lightning"
+  | "movenet-thunder"
+  | "blazepose"
+  | "fixture";
+export type TfBackend = "webgl" | "wasm" | "cpu";
+export type BackendChoice = TfBackend | "auto";
+
+export interface DetectorSettings {
+  model: PoseModel;
+  backend: BackendChoice;
+}
+
+// The model and TensorFlow backend a clip was actually analysed with, after any fallback.
+export interface DetectorInfo {
+  model: PoseModel;
+  // Null for the fixture, which runs no network.
+  backend: TfBackend | null;
+}
+
+// Stored people for one sampled frame, replayed by the fixture backend.
+export interface PoseFixtureFrame {
+  time: number;
+  people: Keypoint[][];
+}
+
+/**
+ * Keypoints every model is mapped onto: the 17 COCO body points MoveNet returns, plus the
+ * hand and foot points BlazePose adds. A model leaves out what it does not track.
+ */
+export const KEYPOINT_NAMES = [
+  "nose",
+  "left_eye",
+  "right_eye",
+  "left_ear",
+  "right_ear",
+  "left_shoulder",
+  "right_shoulder",
+  "left_elbow",
+  "right_elbow",
+  "left_wrist",
+  "right_wrist",
+  "left_hip",
+  "right_hip",
+  "left_knee",
+  "right_knee",
+  "left_ankle",
+  "right_ankle",
+  "left_pinky",
+  "right_pinky",
+  "left_index",
+  "right_index",
+  "left_thumb",
+  "right_thumb",
+  "left_heel",
+  "right_heel",
+  "left_foot_index",
+  "right_foot_index"
+] as const;
+
+export type KeypointName = (typeof KEYPOINT_NAMES)[number];
+
+export const POSE_MODELS: { id: PoseModel; label: string; description: string }[] = [
+  {
+    id: "movenet-multipose",
+    label: "MoveNet MultiPose",
+    description: "Finds up to six people, so the bowler is told apart from umpire and batter."
+  },
+  {
+    id: "movenet-lightning",
+    label: "MoveNet Lightning",
+    description: "Fastest; one person, 17 body points."
+  },
+  {
+    id: "movenet-thunder",
+    label: "MoveNet Thunder",
+    description: "Slower and more accurate; one person, 17 body points."
+  },
+  {
+    id: "blazepose",
+    label: "BlazePose",
+    description: "One person plus heel, toe and hand points; the heel is used for no-balls."
+  },
+  {
+    id: "fixture",
+    label: "Fixture replay",
+    description: "Replays keypoints from an exported analysis instead of running a model."
+  }
+];
+
+export const TF_BACKENDS: { id: BackendChoice; label: string }[] = [
+  { id: "auto", label: "Automatic" },
+  { id: "webgl", label: "WebGL" },
+  { id: "wasm", label: "WebAssembly" },
+  { id: "cpu", label: "CPU" }
+];
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  model: "movenet-multipose",
+  backend: "auto"
+};
+
+const SETTINGS_KEY = "hawkeye:detector";
+const KEYPOINT_ORDER = new Map<string, number>(KEYPOINT_NAMES.map((name, idx) => [name, idx]));
+
+/** Maps a model's keypoints onto the shared schema, in schema order, dropping the rest. */
+export function normalizeKeypoints(keypoints: Keypoint[]): Keypoint[] {
+  return keypoints
+    .filter((point) => point.name != null && KEYPOINT_ORDER.has(point.name))
+    .map((point) => ({ x: point.x, y: point.y, score: point.score ?? 0, name: point.name }))
+    .sort(
+      (a, b) => (KEYPOINT_ORDER.get(a.name ?? "") ?? 0) - (KEYPOINT_ORDER.get(b.name ?? "") ?? 0)
+    );
+}
+
+export function describeDetector(info: DetectorInfo): string {
+  const model = POSE_MODELS.find((entry) => entry.id === info.model)?.label ?? info.model;
+  const backend = TF_BACKENDS.find((entry) => entry.id === info.backend)?.label;
+  return backend ? `${model} on ${backend}` : model;
+}
+
+export function loadDetectorSettings(): DetectorSettings {
+  if (typeof window === "undefined") return DEFAULT_DETECTOR_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_DETECTOR_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<DetectorSettings>;
+    // A fixture needs its file picked again, so it is never restored.
+    const model = POSE_MODELS.some((entry) => entry.id === stored.model && entry.id !== "fixture")
+      ? (stored.model as PoseModel)
+      : DEFAULT_DETECTOR_SETTINGS.model;
+    const backend = TF_BACKENDS.some((entry) => entry.id === stored.backend)
+      ? (stored.backend as BackendChoice)
+      : DEFAULT_DETECTOR_SETTINGS.backend;
+    return { model, backend };
+  } catch (err) {
+    console.error(err);
+    return DEFAULT_DETECTOR_SETTINGS;
+  }
+}
+
+export function saveDetectorSettings(settings: DetectorSettings): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,151 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { BallCandidate } from "./ballTracker";
+import {
+  DEFAULT_DETECTOR_SETTINGS,
+  DetectorInfo,
+  DetectorSettings,
+  PoseFixtureFrame
+} from "./poseModels";
+
+export interface PoseSample {
+  // Everyone the model found; the bowler is picked once the whole clip has been seen.
+  people: Keypoint[][];
+  candidates: BallCandidate[];
+  motion: number;
+}
+
+export type PoseWorkerRequest =
+  // Replies carry the `loadId` back, so one for a superseded load can be told apart.
+  | {
+      type: "load";
+      loadId: number;
+      settings: DetectorSettings;
+      fixture: PoseFixtureFrame[] | null;
+    }
+  // `time` is the frame's place in the clip, which the fixture backend replays by.
+  | { type: "frame"; runId: number; id: number; bitmap: ImageBitmap; time: number }
+  | { type: "cancel"; runId: number };
+
+export type PoseWorkerResponse =
+  | { type: "loaded"; loadId: number; info: DetectorInfo }
+  | { type: "load-error"; loadId: number; message: string }
+  | ({ type: "sample"; id: number } & PoseSample)
+  | { type: "sample-error"; id: number; message: string };
+
+export interface PoseSampler {
+  // Picks the model for the next load; a change takes effect on the next `load`, and a load
+  // still in flight for the old settings is rejected.
+  configure: (settings: DetectorSettings, fixture?: PoseFixtureFrame[] | null) => void;
+  load: () => Promise<DetectorInfo>;
+  startRun: () => number;
+  process: (runId: number, bitmap: ImageBitmap, time: number) => Promise<PoseSample>;
+  // Also ends a finished run, so the worker drops the frame it kept for it.
+  cancel: (runId: number) => void;
+  dispose: () => void;
+}
+
+const abortError = () => new DOMException("Pose sampling cancelled.", "AbortError");
+
+/**
+ * Main-thread handle on the pose worker. Frames are processed in the order they are sent;
+ * cancelling a run rejects its outstanding frames and makes the worker skip them.
+ */
+export function createPoseSampler(): PoseSampler {
+  const worker = new Worker(new URL("./poseWorker.ts", import.meta.url));
+  const pending = new Map<
+    number,
+    { runId: number; resolve: (sample: PoseSample) => void; reject: (err: Error) => void }
+  >();
+  let settings = DEFAULT_DETECTOR_SETTINGS;
+  let fixture: PoseFixtureFrame[] | null = null;
+  let loading: Promise<DetectorInfo> | null = null;
+  let loadCallbacks: {
+    loadId: number;
+    resolve: (info: DetectorInfo) => void;
+    reject: (err: Error) => void;
+  } | null = null;
+  let nextLoad = 0;
+  let nextRun = 0;
+  let nextId = 0;
+
+  worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === "loaded" || message.type === "load-error") {
+      // A reply for a load that `configure` superseded is stale.
+      const callbacks = loadCallbacks;
+      if (callbacks?.loadId !== message.loadId) return;
+      loadCallbacks = null;
+      if (message.type === "loaded") {
+        callbacks.resolve(message.info);
+        return;
+      }
+      loading = null;
+      callbacks.reject(new Error(message.message));
+      return;
+    }
+    const entry = pending.get(message.id);
+    if (!entry) return;
+    pending.delete(message.id);
+    if (message.type === "sample-error") {
+      entry.reject(new Error(message.message));
+      return;
+    }
+    const { people, candidates, motion } = message;
+    entry.resolve({ people, candidates, motion });
+  };
+
+  return {
+    configure: (next, nextFixture = null) => {
+      if (
+        next.model === settings.model &&
+        next.backend === settings.backend &&
+        nextFixture === fixture
+      ) {
+        return;
+      }
+      settings = next;
+      fixture = nextFixture;
+      // A load still in flight is for the old model, so its caller must not wait on the new one.
+      loadCallbacks?.reject(new Error("The pose model was changed while it loaded."));
+      loadCallbacks = null;
+      loading = null;
+    },
+    load: () => {
+      loading ??= new Promise<DetectorInfo>((resolve, reject) => {
+        nextLoad += 1;
+        loadCallbacks = { loadId: nextLoad, resolve, reject };
+        worker.postMessage({
+          type: "load",
+          loadId: nextLoad,
+          settings,
+          fixture
+        } satisfies PoseWorkerRequest);
+      });
+      return loading;
+    },
+    startRun: () => {
+      nextRun += 1;
+      return nextRun;
+    },
+    process: (runId, bitmap, time) =>
+      new Promise<PoseSample>((resolve, reject) => {
+        nextId += 1;
+        pending.set(nextId, { runId, resolve, reject });
+        const request: PoseWorkerRequest = { type: "frame", runId, id: nextId, bitmap, time };
+        worker.postMessage(request, [bitmap]);
+      }),
+    cancel: (runId) => {
+      worker.postMessage({ type: "cancel", runId } satisfies PoseWorkerRequest);
+      pending.forEach((entry, id) => {
+        if (entry.runId !== runId) return;
+        pending.delete(id);
+        entry.reject(abortError());
+      });
+    },
+    dispose: () => {
+      worker.terminate();
+      pending.forEach((entry) => entry.reject(abortError()));
+      pending.clear();
+    }
+  };
+}
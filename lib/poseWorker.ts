@@ -0,0 +1,88 @@
+import { detectBallCandidates } from "./ballTracker";
+import { PoseBackend, loadDetector } from "./detector";
+import { motionEnergy } from "./multiCamera";
+import type { PoseWorkerRequest, PoseWorkerResponse } from "./poseSampling";
+
+// Decodes nothing itself: the page seeks the video and transfers each frame as an
+// ImageBitmap, which is drawn to an OffscreenCanvas here for inference and ball search.
+type FrameRequest = Extract<PoseWorkerRequest, { type: "frame" }>;
+
+const scope = self as unknown as Worker;
+const queue: FrameRequest[] = [];
+const cancelledRuns = new Set<number>();
+let detector: PoseBackend | null = null;
+let canvas: OffscreenCanvas | null = null;
+// The last frame of each run, so live detection and a clip run can interleave.
+const previous = new Map<number, ImageData>();
+// Only the newest load may replace the model; the one in use keeps serving frames meanwhile.
+let latestLoad = 0;
+let draining = false;
+
+const post = (message: PoseWorkerResponse) => scope.postMessage(message);
+
+async function processFrame({ runId, id, bitmap, time }: FrameRequest) {
+  if (!detector) throw new Error("Pose model is not loaded.");
+  if (!canvas || canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+    canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  }
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas rendering context unavailable.");
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const before = previous.get(runId) ?? null;
+  const candidates = detectBallCandidates(image, before);
+  const motion = motionEnergy(image, before);
+  previous.set(runId, image);
+
+  const people = await detector.estimate(image, time);
+  post({ type: "sample", id, people, candidates, motion });
+}
+
+async function drain() {
+  if (draining) return;
+  draining = true;
+  while (queue.length) {
+    const request = queue.shift() as FrameRequest;
+    if (cancelledRuns.has(request.runId)) {
+      request.bitmap.close();
+      continue;
+    }
+    try {
+      await processFrame(request);
+    } catch (err) {
+      post({ type: "sample-error", id: request.id, message: (err as Error).message });
+    }
+  }
+  draining = false;
+}
+
+scope.onmessage = async (event: MessageEvent<PoseWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "load") {
+    const { loadId } = request;
+    latestLoad = loadId;
+    try {
+      const loaded = await loadDetector(request.settings, request.fixture);
+      if (loadId !== latestLoad) return;
+      detector = loaded;
+      post({ type: "loaded", loadId, info: loaded.info });
+    } catch (err) {
+      if (loadId !== latestLoad) return;
+      post({
+        type: "load-error",
+        loadId,
+        message: (err as Error).message || "Pose model failed to load."
+      });
+    }
+    return;
+  }
+  if (request.type === "cancel") {
+    cancelledRuns.add(request.runId);
+    previous.delete(request.runId);
+    return;
+  }
+  queue.push(request);
+  drain();
+};
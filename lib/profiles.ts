@@ -0,0 +1,182 @@
+import type { AnalysisResult } from "../components/VideoAnalyzer";
+import type { SummaryConfidence } from "./confidence";
+import { createId } from "./session";
+
+export type BowlingArm = "right" | "left";
+export type BowlingType = "seam" | "swing" | "off-spin" | "leg-spin" | "left-arm-spin";
+export type PaceBand = "fast" | "fast-medium" | "medium" | "slow";
+
+export interface WorkloadLimits {
+  // Deliveries in one calendar day; null turns the alert off.
+  daily: number | null;
+  // Deliveries in the last seven days.
+  weekly: number | null;
+  // Last seven days against the average week of the four before; above this is a spike.
+  spikeRatio: number | null;
+}
+
+export interface BowlerProfile {
+  id: string;
+  name: string;
+  arm: BowlingArm;
+  bowlingType: BowlingType;
+  paceBand: PaceBand;
+  limits: WorkloadLimits;
+  createdAt: number;
+}
+
+// One delivery as seen from a profile: when it was bowled and what was measured.
+export interface ProfileDelivery {
+  id: string;
+  recordedAt: number;
+  summary: AnalysisResult["summary"];
+  confidence: SummaryConfidence | null;
+}
+
+export interface TrendMetric {
+  key: keyof AnalysisResult["summary"];
+  label: string;
+  unit: string;
+  // The chart's value axis always reaches at least this high.
+  minTop: number;
+}
+
+export interface WorkloadDay {
+  // Local midnight the day starts at.
+  start: number;
+  deliveries: number;
+}
+
+export interface Workload {
+  days: WorkloadDay[];
+  today: number;
+  lastSevenDays: number;
+  // Average week over the four weeks before the last seven days; null without that history.
+  chronicWeekly: number | null;
+  ratio: number | null;
+}
+
+export const BOWLING_ARMS: { id: BowlingArm; label: string }[] = [
+  { id: "right", label: "Right-arm" },
+  { id: "left", label: "Left-arm" }
+];
+
+export const BOWLING_TYPES: { id: BowlingType; label: string }[] = [
+  { id: "seam", label: "Seam" },
+  { id: "swing", label: "Swing" },
+  { id: "off-spin", label: "Off-spin" },
+  { id: "leg-spin", label: "Leg-spin" },
+  { id: "left-arm-spin", label: "Left-arm orthodox" }
+];
+
+export const PACE_BANDS: { id: PaceBand; label: string }[] = [
+  { id: "fast", label: "Fast (135+ km/h)" },
+  { id: "fast-medium", label: "Fast-medium (120–135 km/h)" },
+  { id: "medium", label: "Medium (100–120 km/h)" },
+  { id: "slow", label: "Slow (under 100 km/h)" }
+];
+
+export const TREND_METRICS: TrendMetric[] = [
+  { key: "releaseSpeedKph", label: "Release pace", unit: " km/h", minTop: 100 },
+  { key: "releaseHeight", label: "Release height", unit: " m", minTop: 2 },
+  { key: "seamAngle", label: "Forearm angle at release", unit: "°", minTop: 30 },
+  { key: "runupVelocityKph", label: "Run-up velocity", unit: " km/h", minTop: 20 }
+];
+
+// Ten overs a day and forty a week, with the usual 1.5 acute to chronic ratio as a spike.
+export const DEFAULT_WORKLOAD_LIMITS: WorkloadLimits = { daily: 60, weekly: 240, spikeRatio: 1.5 };
+
+// Days shown in the workload strip, today included.
+const WORKLOAD_DAYS = 14;
+const CHRONIC_WEEKS = 4;
+
+export function createProfile(name: string): BowlerProfile {
+  return {
+    id: createId(),
+    name,
+    arm: "right",
+    bowlingType: "seam",
+    paceBand: "fast-medium",
+    limits: DEFAULT_WORKLOAD_LIMITS,
+    createdAt: Date.now()
+  };
+}
+
+export function describeProfile(profile: BowlerProfile): string {
+  const arm = BOWLING_ARMS.find((entry) => entry.id === profile.arm)?.label;
+  const type = BOWLING_TYPES.find((entry) => entry.id === profile.bowlingType)?.label;
+  const band = PACE_BANDS.find((entry) => entry.id === profile.paceBand)?.label;
+  return `${arm} ${type?.toLowerCase()} • ${band}`;
+}
+
+/**
+ * One metric across a profile's deliveries, oldest first. Values the analysis could not
+ * measure are left out rather than charted as their placeholders.
+ */
+export function trendOf(
+  deliveries: ProfileDelivery[],
+  metric: TrendMetric["key"]
+): { id: string; recordedAt: number; value: number }[] {
+  const ordered = [...deliveries].sort((a, b) => a.recordedAt - b.recordedAt);
+  return ordered.flatMap((delivery) => {
+    const value = delivery.summary[metric];
+    const defaulted = delivery.confidence?.[metric]?.provenance === "defaulted";
+    return value == null || defaulted
+      ? []
+      : [{ id: delivery.id, recordedAt: delivery.recordedAt, value }];
+  });
+}
+
+// Local midnight, stepped by calendar days so daylight-saving changes do not shift buckets.
+export const startOfDay = (time: number, offsetDays = 0) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays).getTime();
+};
+
+/**
+ * Deliveries per calendar day up to `now`, with the last seven days set against the four
+ * weeks before them. Analysed clips are the only record, so unfilmed balls are not counted.
+ */
+export function measureWorkload(deliveries: ProfileDelivery[], now = Date.now()): Workload {
+  const countBetween = (from: number, to: number) =>
+    deliveries.filter(({ recordedAt }) => recordedAt >= from && recordedAt < to).length;
+  const tomorrow = startOfDay(now, 1);
+  const weekStart = startOfDay(now, -6);
+  const chronicStart = startOfDay(now, -6 - CHRONIC_WEEKS * 7);
+
+  const days = Array.from({ length: WORKLOAD_DAYS }, (_, idx) => {
+    const start = startOfDay(now, idx - WORKLOAD_DAYS + 1);
+    return { start, deliveries: countBetween(start, startOfDay(start, 1)) };
+  });
+  const lastSevenDays = countBetween(weekStart, tomorrow);
+  const hasHistory = deliveries.some((delivery) => delivery.recordedAt < weekStart);
+  const chronicWeekly = hasHistory ? countBetween(chronicStart, weekStart) / CHRONIC_WEEKS : null;
+
+  return {
+    days,
+    today: days[days.length - 1].deliveries,
+    lastSevenDays,
+    chronicWeekly,
+    ratio: chronicWeekly ? lastSevenDays / chronicWeekly : null
+  };
+}
+
+export function workloadAlerts(workload: Workload, limits: WorkloadLimits): string[] {
+  const alerts: string[] = [];
+  if (limits.daily != null && workload.today > limits.daily) {
+    alerts.push(`${workload.today} deliveries today, over the daily limit of ${limits.daily}.`);
+  }
+  if (limits.weekly != null && workload.lastSevenDays > limits.weekly) {
+    alerts.push(
+      `${workload.lastSevenDays} deliveries in seven days, over the weekly limit of ` +
+        `${limits.weekly}.`
+    );
+  }
+  if (limits.spikeRatio != null && workload.ratio != null && workload.ratio > limits.spikeRatio) {
+    alerts.push(
+      `Load spike: this week is ${workload.ratio.toFixed(2)}× the four-week average ` +
+        `(alert above ${limits.spikeRatio.toFixed(2)}×).`
+    );
+  }
+  return alerts;
+}
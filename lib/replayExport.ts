@@ -0,0 +1,283 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { AnalysisResult, FrameSnapshot } from "../components/VideoAnalyzer";
+import { CameraCalibration, projectToImage } from "./calibration";
+import { measuredValue } from "./confidence";
+import { resolveDuration } from "./frameSampling";
+
+export interface ReplayRenderOptions {
+  source: string;
+  analysis: AnalysisResult;
+  calibration: CameraCalibration | null;
+  height: number;
+  fps: number;
+  // Returns the Hawk-Eye render for a frame, once the 3D view has caught up with it.
+  pip?: (frameIndex: number) => Promise<CanvasImageSource | null>;
+  signal: AbortSignal;
+  onProgress: (ratio: number) => void;
+}
+
+const SKELETON: [string, string][] = [
+  ["left_shoulder", "right_shoulder"],
+  ["left_shoulder", "left_elbow"],
+  ["left_elbow", "left_wrist"],
+  ["right_shoulder", "right_elbow"],
+  ["right_elbow", "right_wrist"],
+  ["left_shoulder", "left_hip"],
+  ["right_shoulder", "right_hip"],
+  ["left_hip", "right_hip"],
+  ["left_hip", "left_knee"],
+  ["left_knee", "left_ankle"],
+  ["right_hip", "right_knee"],
+  ["right_knee", "right_ankle"]
+];
+const MIME_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const PIP_SCALE = 0.32;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve) => {
+    const handleSeeked = () => {
+      video.removeEventListener("seeked", handleSeeked);
+      resolve();
+    };
+    video.addEventListener("seeked", handleSeeked);
+    video.currentTime = time;
+  });
+}
+
+function loadVideo(source: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("The source clip could not be loaded."));
+    video.src = source;
+  });
+}
+
+function nearestFrame(frames: FrameSnapshot[], time: number): number {
+  return frames.reduce(
+    (closest, frame, idx) =>
+      Math.abs(frame.time - time) < Math.abs(frames[closest].time - time) ? idx : closest,
+    0
+  );
+}
+
+// Where the ball sits in the source video: the fitted position projected through the
+// calibration when there is one, otherwise the raw tracked pixel.
+function ballPixel(frame: FrameSnapshot, calibration: CameraCalibration | null) {
+  if (calibration && frame.ballConfidence > 0) {
+    return projectToImage(calibration, frame.ballPosition);
+  }
+  return frame.ballPixel ? [frame.ballPixel[0], frame.ballPixel[1]] : null;
+}
+
+function drawSkeleton(ctx: CanvasRenderingContext2D, keypoints: Keypoint[], scale: number) {
+  const byName = new Map(keypoints.map((point) => [point.name, point]));
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = "rgba(110, 140, 255, 0.85)";
+  ctx.fillStyle = "rgba(110, 140, 255, 0.95)";
+  SKELETON.forEach(([from, to]) => {
+    const a = byName.get(from);
+    const b = byName.get(to);
+    if (!a || !b) return;
+    ctx.beginPath();
+    ctx.moveTo(a.x * scale, a.y * scale);
+    ctx.lineTo(b.x * scale, b.y * scale);
+    ctx.stroke();
+  });
+  keypoints.forEach((point) => {
+    ctx.beginPath();
+    ctx.arc(point.x * scale, point.y * scale, 4, 0, Math.PI * 2);
+    ctx.fill();
+  });
+}
+
+function drawBallTrack(
+  ctx: CanvasRenderingContext2D,
+  frames: FrameSnapshot[],
+  frameIndex: number,
+  calibration: CameraCalibration | null,
+  scale: number
+) {
+  const points = frames
+    .slice(0, frameIndex + 1)
+    .map((frame) => ballPixel(frame, calibration))
+    .filter((point): point is number[] => point != null);
+  if (!points.length) return;
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = "rgba(255, 141, 92, 0.85)";
+  ctx.beginPath();
+  points.forEach(([x, y], idx) =>
+    idx === 0 ? ctx.moveTo(x * scale, y * scale) : ctx.lineTo(x * scale, y * scale)
+  );
+  ctx.stroke();
+  const [x, y] = points[points.length - 1];
+  ctx.fillStyle = "#ffcf64";
+  ctx.beginPath();
+  ctx.arc(x * scale, y * scale, 7, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+function drawCaptions(
+  ctx: CanvasRenderingContext2D,
+  analysis: AnalysisResult,
+  frameIndex: number,
+  width: number,
+  height: number
+) {
+  const frame = analysis.frames[frameIndex];
+  const { releaseFrame, pitchFrame, impactFrame, landingFrame } = analysis.keyMoments;
+  const moment =
+    frameIndex === releaseFrame
+      ? "RELEASE"
+      : frameIndex === pitchFrame
+        ? "PITCH"
+        : frameIndex === impactFrame
+          ? "IMPACT"
+          : frameIndex === landingFrame
+            ? analysis.frontFoot && !analysis.frontFoot.legal
+              ? "FRONT FOOT • NO BALL"
+              : "FRONT FOOT"
+            : null;
+  const fontSize = Math.round(height / 28);
+  const release = measuredValue(analysis, "releaseSpeedKph");
+  const lines = [
+    `${frame.phase.toUpperCase()}${moment ? ` • ${moment}` : ""}`,
+    `${Math.round(frame.speedKph)} km/h • release ${
+      release == null ? "--" : `${Math.round(release)} km/h`
+    } • seam ${frame.seamAngle.toFixed(1)}°`
+  ];
+  const boxHeight = fontSize * 1.5 * lines.length + fontSize;
+  ctx.fillStyle = "rgba(9, 12, 22, 0.72)";
+  ctx.fillRect(0, height - boxHeight, width, boxHeight);
+  ctx.fillStyle = "#f7f9ff";
+  ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+  lines.forEach((line, idx) => {
+    ctx.fillText(line, fontSize, height - boxHeight + fontSize * 1.5 * (idx + 1));
+  });
+}
+
+/**
+ * Re-renders the clip frame by frame with the skeleton, ball track, captions and an
+ * optional Hawk-Eye picture-in-picture, and records it to WebM. The recorder is paused
+ * while each frame is seeked and drawn, so slow seeking does not stretch the output.
+ */
+export async function renderAnnotatedReplay({
+  source,
+  analysis,
+  calibration,
+  height,
+  fps,
+  pip,
+  signal,
+  onProgress
+}: ReplayRenderOptions): Promise<Blob> {
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("This browser cannot record video.");
+  }
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser cannot encode WebM video.");
+
+  const video = await loadVideo(source);
+  const scale = height / (video.videoHeight || height);
+  const canvas = document.createElement("canvas");
+  // Encoders want even dimensions.
+  canvas.width = Math.round(((video.videoWidth || 1280) * scale) / 2) * 2;
+  canvas.height = Math.round(height / 2) * 2;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas rendering context unavailable.");
+
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const duration =
+    (await resolveDuration(video, signal)) || analysis.frames[analysis.frames.length - 1].time;
+  const total = Math.max(1, Math.floor(duration * fps));
+  recorder.start();
+  recorder.pause();
+
+  try {
+    for (let idx = 0; idx < total; idx += 1) {
+      if (signal.aborted) throw new DOMException("Export cancelled.", "AbortError");
+      const time = idx / fps;
+      await seek(video, Math.min(time, duration - 0.01));
+      const frameIndex = nearestFrame(analysis.frames, time);
+
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      drawBallTrack(ctx, analysis.frames, frameIndex, calibration, scale);
+      drawSkeleton(ctx, analysis.frames[frameIndex].keypoints, scale);
+      drawCaptions(ctx, analysis, frameIndex, canvas.width, canvas.height);
+
+      const inset = pip ? await pip(frameIndex) : null;
+      if (inset) {
+        const pipWidth = canvas.width * PIP_SCALE;
+        const aspect =
+          inset instanceof HTMLCanvasElement && inset.width ? inset.height / inset.width : 9 / 16;
+        const pipHeight = pipWidth * aspect;
+        const margin = canvas.height * 0.03;
+        ctx.drawImage(inset, canvas.width - pipWidth - margin, margin, pipWidth, pipHeight);
+        ctx.strokeStyle = "rgba(129, 156, 255, 0.8)";
+        ctx.lineWidth = 2;
+        ctx.strokeRect(canvas.width - pipWidth - margin, margin, pipWidth, pipHeight);
+      }
+
+      recorder.resume();
+      track.requestFrame();
+      await wait(1000 / fps);
+      recorder.pause();
+      onProgress((idx + 1) / total);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach((entry) => entry.stop());
+    video.removeAttribute("src");
+    video.load();
+  }
+
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+/** Single frames with the replay's skeleton, ball track and captions, e.g. for reports. */
+export async function renderStills(
+  source: string,
+  analysis: AnalysisResult,
+  calibration: CameraCalibration | null,
+  frameIndices: number[],
+  height: number
+): Promise<HTMLCanvasElement[]> {
+  const video = await loadVideo(source);
+  const scale = height / (video.videoHeight || height);
+  try {
+    const stills: HTMLCanvasElement[] = [];
+    for (const frameIndex of frameIndices) {
+      await seek(video, analysis.frames[frameIndex].time);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round((video.videoWidth || 1280) * scale);
+      canvas.height = Math.round(height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas rendering context unavailable.");
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      drawBallTrack(ctx, analysis.frames, frameIndex, calibration, scale);
+      drawSkeleton(ctx, analysis.frames[frameIndex].keypoints, scale);
+      drawCaptions(ctx, analysis, frameIndex, canvas.width, canvas.height);
+      stills.push(canvas);
+    }
+    return stills;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+}
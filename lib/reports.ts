@@ -0,0 +1,476 @@
+import type { AnalysisResult } from "../components/VideoAnalyzer";
+import { MetricConfidence, PROVENANCE_LABELS, SummaryMetric, measuredValue } from "./confidence";
+import { formatDeviation, formatSwing } from "./movement";
+import { PdfDocument, PdfImage, createPdfDocument } from "./pdf";
+import { LENGTH_ZONES, classifyLength } from "./pitchMap";
+import { renderStills } from "./replayExport";
+import type { Delivery } from "./session";
+import { PITCH_LENGTH_METERS } from "./trajectory";
+
+export interface ReportMetric {
+  key: SummaryMetric;
+  label: string;
+  unit: string;
+  digits: number;
+  // Signed movement reads better as a direction than as a sign.
+  format?: (value: number) => string;
+}
+
+// Summary values in the order the telemetry panel shows them.
+export const REPORT_METRICS: ReportMetric[] = [
+  { key: "releaseSpeedKph", label: "Release Pace", unit: "km/h", digits: 0 },
+  { key: "seamOrientation", label: "Seam Orientation", unit: "°", digits: 1 },
+  { key: "spinRpm", label: "Spin Rate", unit: "rpm", digits: 0 },
+  { key: "swingCm", label: "Swing", unit: "cm", digits: 0, format: formatSwing },
+  {
+    key: "deviationDegrees",
+    label: "Off The Pitch",
+    unit: "°",
+    digits: 1,
+    format: formatDeviation
+  },
+  { key: "seamAngle", label: "Forearm Angle", unit: "°", digits: 1 },
+  { key: "releaseHeight", label: "Release Height", unit: "m", digits: 2 },
+  { key: "pitchingDistanceMeters", label: "Pitching From Stumps", unit: "m", digits: 2 },
+  { key: "predictedImpactMeters", label: "Impact From Stumps", unit: "m", digits: 2 },
+  { key: "runupVelocityKph", label: "Run-Up Velocity", unit: "km/h", digits: 0 }
+];
+
+const KEY_MOMENT_LABELS: [keyof AnalysisResult["keyMoments"], string][] = [
+  ["releaseFrame", "Release"],
+  ["pitchFrame", "Pitch"],
+  ["impactFrame", "Impact"],
+  ["landingFrame", "Front Foot"]
+];
+
+const PAGE_MARGIN = 40;
+const STILL_HEIGHT = 360;
+const JPEG_QUALITY = 0.85;
+const INK: [number, number, number] = [20, 24, 38];
+const MUTED: [number, number, number] = [95, 105, 140];
+const CARD: [number, number, number] = [236, 240, 252];
+const PROVENANCE_COLORS: Record<MetricConfidence["provenance"], [number, number, number]> = {
+  measured: [30, 130, 80],
+  estimated: [170, 120, 10],
+  defaulted: [190, 50, 50]
+};
+const TRAJECTORY_SIZE: [number, number] = [720, 300];
+// Drawn for the trajectory image, either side of the middle stump.
+const HALF_PITCH_WIDTH = 1.5;
+const MAX_DRAWN_HEIGHT = 3;
+
+const csvCell = (value: string | number | null | undefined) => {
+  if (value == null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number | null | undefined)[][]) =>
+  rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+
+const fixed = (value: number | null | undefined, digits: number) =>
+  value == null ? null : Number(value.toFixed(digits));
+
+// A defaulted value is a placeholder, so it is reported as missing.
+function keyMomentOf(analysis: AnalysisResult, frameIndex: number): string {
+  return KEY_MOMENT_LABELS.filter(([key]) => analysis.keyMoments[key] === frameIndex)
+    .map(([, label]) => label)
+    .join(" / ");
+}
+
+/** One row per sampled frame of every delivery, for a spreadsheet. */
+export function framesCsv(deliveries: Delivery[]): string {
+  const header = [
+    "ball",
+    "clip",
+    "frame",
+    "time_s",
+    "phase",
+    "key_moment",
+    "ball_x_m",
+    "ball_y_m",
+    "ball_z_m",
+    "ball_pixel_x",
+    "ball_pixel_y",
+    "ball_confidence",
+    "ball_error_m",
+    "speed_kph",
+    "forearm_angle_deg",
+    "release_height_m",
+    "people_in_frame"
+  ];
+  const rows = deliveries.flatMap((delivery, ball) =>
+    delivery.analysis.frames.map((frame, idx) => [
+      ball + 1,
+      delivery.clipName,
+      idx + 1,
+      fixed(frame.time, 3),
+      frame.phase,
+      keyMomentOf(delivery.analysis, idx),
+      ...frame.ballPosition.map((value) => fixed(value, 3)),
+      fixed(frame.ballPixel?.[0], 1),
+      fixed(frame.ballPixel?.[1], 1),
+      fixed(frame.ballConfidence, 3),
+      fixed(frame.ballError, 3),
+      fixed(frame.speedKph, 1),
+      fixed(frame.seamAngle, 1),
+      fixed(frame.releaseHeight, 3),
+      frame.people.length
+    ])
+  );
+  return toCsv([header, ...rows]);
+}
+
+/** One row per delivery with every summary value, its interval and where it came from. */
+export function summaryCsv(deliveries: Delivery[]): string {
+  const header = [
+    "ball",
+    "clip",
+    "recorded_at",
+    "bowler",
+    "length",
+    "front_foot",
+    ...REPORT_METRICS.flatMap(({ key }) => [key, `${key}_low`, `${key}_high`, `${key}_source`]),
+    "notes"
+  ];
+  const rows = deliveries.map((delivery, ball) => {
+    const { analysis } = delivery;
+    const length = lengthLabel(analysis);
+    return [
+      ball + 1,
+      delivery.clipName,
+      new Date(delivery.recordedAt).toISOString(),
+      delivery.bowler,
+      length,
+      analysis.frontFoot ? (analysis.frontFoot.legal ? "fair" : "no ball") : null,
+      ...REPORT_METRICS.flatMap(({ key, digits }) => {
+        const confidence = analysis.confidence?.[key];
+        return [
+          fixed(measuredValue(analysis, key), digits),
+          fixed(confidence?.low, digits),
+          fixed(confidence?.high, digits),
+          confidence?.provenance ?? null
+        ];
+      }),
+      delivery.notes
+    ];
+  });
+  return toCsv([header, ...rows]);
+}
+
+function lengthLabel(analysis: AnalysisResult): string | null {
+  const point = analysis.reconstruction?.pitchingPoint;
+  if (!point) return null;
+  const zone = classifyLength(PITCH_LENGTH_METERS - point[2]);
+  return LENGTH_ZONES.find((entry) => entry.zone === zone)?.label ?? null;
+}
+
+function formatMetric(analysis: AnalysisResult, metric: ReportMetric) {
+  const value = measuredValue(analysis, metric.key);
+  const confidence = analysis.confidence?.[metric.key];
+  const spacer = metric.unit === "°" ? "" : " ";
+  const halfWidth =
+    confidence?.low != null && confidence.high != null
+      ? (confidence.high - confidence.low) / 2
+      : null;
+  return {
+    value:
+      value == null
+        ? "--"
+        : (metric.format?.(value) ?? `${value.toFixed(metric.digits)}${spacer}${metric.unit}`),
+    interval:
+      value != null && halfWidth != null && Number.isFinite(halfWidth)
+        ? `± ${halfWidth.toFixed(metric.digits)}${spacer}${metric.unit}`
+        : null,
+    confidence
+  };
+}
+
+async function toJpeg(canvas: HTMLCanvasElement): Promise<PdfImage> {
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY)
+  );
+  if (!blob) throw new Error("A report image could not be encoded.");
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    width: canvas.width,
+    height: canvas.height
+  };
+}
+
+/**
+ * Side-on and top-down views of the reconstructed path, bowler's end on the left, with the
+ * length zones shaded and the pitching point marked.
+ */
+function renderTrajectory(analysis: AnalysisResult): HTMLCanvasElement {
+  const [width, height] = TRAJECTORY_SIZE;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas rendering context unavailable.");
+  const pad = 24;
+  const band = (height - pad * 3) / 2;
+  const x = (depth: number) => pad + (depth / PITCH_LENGTH_METERS) * (width - pad * 2);
+  const side = (lift: number) =>
+    pad + band - (Math.min(lift, MAX_DRAWN_HEIGHT) / MAX_DRAWN_HEIGHT) * band;
+  const top = (line: number) =>
+    pad * 2 + band + ((line + HALF_PITCH_WIDTH) / (HALF_PITCH_WIDTH * 2)) * band;
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  const shades = ["#c7e8d0", "#f3e2a6", "#bcd7f5", "#e9c3c3"];
+  LENGTH_ZONES.reduce((from, zone, idx) => {
+    const to = Math.min(zone.to, PITCH_LENGTH_METERS);
+    ctx.fillStyle = shades[idx % shades.length];
+    ctx.fillRect(
+      x(PITCH_LENGTH_METERS - to),
+      pad * 2 + band,
+      x(PITCH_LENGTH_METERS - from) - x(PITCH_LENGTH_METERS - to),
+      band
+    );
+    return to;
+  }, 0);
+  ctx.strokeStyle = "#8f9bdb";
+  ctx.lineWidth = 1;
+  ctx.strokeRect(x(0), pad, x(PITCH_LENGTH_METERS) - x(0), band);
+  ctx.beginPath();
+  ctx.moveTo(x(PITCH_LENGTH_METERS), pad);
+  ctx.lineTo(x(PITCH_LENGTH_METERS), height - pad);
+  ctx.stroke();
+
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = "#e0643a";
+  const views: ((point: [number, number, number]) => number)[] = [
+    ([, lift]) => side(lift),
+    ([line]) => top(line)
+  ];
+  views.forEach((project) => {
+    ctx.beginPath();
+    analysis.trajectory.forEach((point, idx) =>
+      idx === 0 ? ctx.moveTo(x(point[2]), project(point)) : ctx.lineTo(x(point[2]), project(point))
+    );
+    ctx.stroke();
+  });
+  const pitching = analysis.reconstruction?.pitchingPoint;
+  if (pitching) {
+    ctx.fillStyle = "#d19a00";
+    [
+      [x(pitching[2]), side(0)],
+      [x(pitching[2]), top(pitching[0])]
+    ].forEach(([px, py]) => {
+      ctx.beginPath();
+      ctx.arc(px, py, 6, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+
+  ctx.fillStyle = "#5f698c";
+  ctx.font = "16px Inter, sans-serif";
+  ctx.fillText("Side on", pad, pad - 6);
+  ctx.fillText("From above", pad, pad * 2 + band - 6);
+  ctx.textAlign = "right";
+  ctx.fillText("Stumps", width - pad, pad - 6);
+  return canvas;
+}
+
+export interface CoachingReportOptions {
+  title: string;
+  notes: string;
+  onProgress?: (ratio: number) => void;
+}
+
+/**
+ * Printable report: coach notes, then per delivery the telemetry cards with their
+ * intervals, overlaid stills of the key moments and the trajectory. Built in the browser;
+ * deliveries imported without their clip get no stills.
+ */
+export async function renderCoachingReport(
+  deliveries: Delivery[],
+  { title, notes, onProgress }: CoachingReportOptions
+): Promise<Blob> {
+  const doc = createPdfDocument();
+  const contentWidth = doc.width - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+  // Starts a new page when the next block would run off the bottom of this one.
+  const reserve = (space: number) => {
+    if (y + space <= doc.height - PAGE_MARGIN) return;
+    doc.addPage();
+    y = PAGE_MARGIN;
+  };
+
+  doc.addPage();
+  doc.text(PAGE_MARGIN, y + 18, title, { size: 20, bold: true });
+  doc.text(PAGE_MARGIN, y + 36, `Generated ${new Date().toLocaleString()}`, {
+    size: 9,
+    color: MUTED
+  });
+  y += 58;
+  if (notes.trim()) {
+    doc.text(PAGE_MARGIN, y, "Coach notes", { size: 11, bold: true });
+    y = doc.paragraph(PAGE_MARGIN, y + 16, contentWidth, notes.trim()) + 10;
+  }
+  if (deliveries.length > 1) y = drawOverview(doc, deliveries, y);
+
+  for (const [idx, delivery] of deliveries.entries()) {
+    if (deliveries.length > 1) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    y = drawDeliveryHeader(doc, delivery, idx, y);
+    y = drawTelemetry(doc, delivery.analysis, y, contentWidth);
+
+    const angle = delivery.angles?.[0];
+    const moments = KEY_MOMENT_LABELS.flatMap(([key, label]) => {
+      const frameIndex = delivery.analysis.keyMoments[key];
+      return frameIndex == null ? [] : [{ label, frameIndex }];
+    });
+    if (angle) {
+      const url = URL.createObjectURL(angle.file);
+      try {
+        const stills = await renderStills(
+          url,
+          delivery.analysis,
+          angle.calibration,
+          moments.map((moment) => moment.frameIndex),
+          STILL_HEIGHT
+        );
+        const stillWidth = (contentWidth - 12) / 2;
+        for (const [stillIdx, still] of stills.entries()) {
+          const stillHeight = (stillWidth * still.height) / still.width;
+          const column = stillIdx % 2;
+          if (column === 0) reserve(stillHeight + 20);
+          const left = PAGE_MARGIN + column * (stillWidth + 12);
+          doc.text(
+            left,
+            y + 10,
+            `${moments[stillIdx].label} • frame ${moments[stillIdx].frameIndex + 1}`,
+            {
+              size: 9,
+              bold: true
+            }
+          );
+          doc.image(await toJpeg(still), left, y + 16, stillWidth, stillHeight);
+          if (column === 1 || stillIdx === stills.length - 1) y += stillHeight + 26;
+        }
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    } else {
+      reserve(20);
+      doc.text(PAGE_MARGIN, y + 10, "Imported without its clip, so there are no stills.", {
+        size: 9,
+        color: MUTED
+      });
+      y += 20;
+    }
+
+    const trajectory = renderTrajectory(delivery.analysis);
+    const trajectoryHeight = (contentWidth * trajectory.height) / trajectory.width;
+    reserve(trajectoryHeight + 20);
+    doc.text(PAGE_MARGIN, y + 10, "Trajectory and pitch map", { size: 9, bold: true });
+    doc.image(await toJpeg(trajectory), PAGE_MARGIN, y + 16, contentWidth, trajectoryHeight);
+    y += trajectoryHeight + 26;
+
+    if (delivery.notes.trim()) {
+      reserve(40);
+      doc.text(PAGE_MARGIN, y + 10, "Delivery notes", { size: 9, bold: true });
+      y = doc.paragraph(PAGE_MARGIN, y + 26, contentWidth, delivery.notes.trim(), { size: 9 });
+    }
+    onProgress?.((idx + 1) / deliveries.length);
+  }
+
+  return doc.toBlob();
+}
+
+function drawOverview(doc: PdfDocument, deliveries: Delivery[], top: number): number {
+  const columns: [string, number][] = [
+    ["Ball", 0],
+    ["Clip", 40],
+    ["Bowler", 210],
+    ["Pace", 320],
+    ["Length", 390],
+    ["Release height", 450]
+  ];
+  doc.text(PAGE_MARGIN, top, "Deliveries", { size: 11, bold: true });
+  let y = top + 18;
+  columns.forEach(([label, offset]) =>
+    doc.text(PAGE_MARGIN + offset, y, label, { size: 9, bold: true, color: MUTED })
+  );
+  deliveries.forEach((delivery, idx) => {
+    y += 14;
+    if (y > doc.height - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    const { analysis } = delivery;
+    const pace = measuredValue(analysis, "releaseSpeedKph");
+    const height = measuredValue(analysis, "releaseHeight");
+    const cells = [
+      String(idx + 1),
+      delivery.clipName.slice(0, 32),
+      delivery.bowler || "--",
+      pace == null ? "--" : `${Math.round(pace)} km/h`,
+      lengthLabel(analysis) ?? "--",
+      height == null ? "--" : `${height.toFixed(2)} m`
+    ];
+    cells.forEach((cell, column) =>
+      doc.text(PAGE_MARGIN + columns[column][1], y, cell, { size: 9 })
+    );
+  });
+  return y + 20;
+}
+
+function drawDeliveryHeader(doc: PdfDocument, delivery: Delivery, idx: number, top: number) {
+  doc.rect(PAGE_MARGIN, top, doc.width - PAGE_MARGIN * 2, 2, INK);
+  doc.text(PAGE_MARGIN, top + 22, `Ball ${idx + 1} • ${delivery.clipName}`, {
+    size: 14,
+    bold: true
+  });
+  const details = [
+    delivery.bowler || "Unknown bowler",
+    new Date(delivery.recordedAt).toLocaleString(),
+    delivery.analysis.frontFoot
+      ? delivery.analysis.frontFoot.legal
+        ? "Fair delivery"
+        : "No ball"
+      : null
+  ].filter(Boolean);
+  doc.text(PAGE_MARGIN, top + 38, details.join(" • "), { size: 9, color: MUTED });
+  return top + 52;
+}
+
+function drawTelemetry(
+  doc: PdfDocument,
+  analysis: AnalysisResult,
+  top: number,
+  contentWidth: number
+): number {
+  const perRow = 3;
+  const gap = 8;
+  const cardWidth = (contentWidth - gap * (perRow - 1)) / perRow;
+  const cardHeight = 72;
+  REPORT_METRICS.forEach((metric, idx) => {
+    const left = PAGE_MARGIN + (idx % perRow) * (cardWidth + gap);
+    const cardTop = top + Math.floor(idx / perRow) * (cardHeight + gap);
+    const { value, interval, confidence } = formatMetric(analysis, metric);
+    doc.rect(left, cardTop, cardWidth, cardHeight, CARD);
+    doc.text(left + 8, cardTop + 14, metric.label, { size: 8, color: MUTED });
+    doc.text(left + 8, cardTop + 31, value, { size: 14, bold: true });
+    if (interval) doc.text(left + 8, cardTop + 43, interval, { size: 8 });
+    if (confidence) {
+      doc.text(left + 8, cardTop + 56, PROVENANCE_LABELS[confidence.provenance], {
+        size: 8,
+        bold: true,
+        color: PROVENANCE_COLORS[confidence.provenance]
+      });
+      if (confidence.reason) {
+        const reason =
+          confidence.reason.length > 48 ? `${confidence.reason.slice(0, 47)}…` : confidence.reason;
+        doc.text(left + 8, cardTop + 66, reason, { size: 6, color: MUTED });
+      }
+    }
+  });
+  const rows = Math.ceil(REPORT_METRICS.length / perRow);
+  return top + rows * (cardHeight + gap) + 10;
+}
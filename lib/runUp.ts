@@ -0,0 +1,255 @@
+import type { Keypoint } from "@tensorflow-models/pose-detection";
+import type { FrameSnapshot } from "../components/VideoAnalyzer";
+import { BowlingArm, bowlingArm } from "./biomechanics";
+import { CameraCalibration, locateOnGround } from "./calibration";
+
+export interface FootContact {
+  frameIndex: number;
+  time: number;
+  foot: BowlingArm;
+  pixel: [number, number];
+}
+
+export interface KinematicSample {
+  frameIndex: number;
+  time: number;
+  value: number;
+}
+
+export interface RunUpReport {
+  // Foot plants from the start of the clip up to and including back-foot contact.
+  contacts: FootContact[];
+  // Metres between consecutive plants.
+  strideLengths: number[];
+  approachSpeed: KinematicSample[];
+  approachSpeedKph: number | null;
+  loadUpFrame: number | null;
+  backFootFrame: number | null;
+  frontFootFrame: number | null;
+  deliveryStrideMeters: number | null;
+  hipShoulderSeparation: number | null;
+  frontKneeFlexion: number | null;
+  // Front knee from front-foot contact to release.
+  kneeFlexion: KinematicSample[];
+  // Calibrated distances sit on the pitch; otherwise they are scaled from leg length.
+  scale: "calibrated" | "body";
+}
+
+const MIN_KEYPOINT_SCORE = 0.3;
+// Hip joint to ankle for an adult fast bowler, used to turn pixels into metres.
+const LEG_LENGTH_METERS = 0.9;
+// A foot cannot plant twice within this long.
+const MIN_CONTACT_GAP_SECONDS = 0.2;
+// How much lower than the other ankle a planted ankle may sit, as a share of leg length.
+const CONTACT_TOLERANCE = 0.08;
+// Approach speed is read over the last part of the run-up before back-foot contact.
+const APPROACH_WINDOW_SECONDS = 0.6;
+
+const joint = (keypoints: Keypoint[], name: string) => {
+  const point = keypoints.find((kp) => kp.name === name);
+  return point && (point.score ?? 0) >= MIN_KEYPOINT_SCORE ? point : null;
+};
+
+const otherSide = (side: BowlingArm): BowlingArm => (side === "right" ? "left" : "right");
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Interior angle at `b`, in degrees.
+function jointAngle(a: Keypoint, b: Keypoint, c: Keypoint): number {
+  const ab = [a.x - b.x, a.y - b.y];
+  const cb = [c.x - b.x, c.y - b.y];
+  const lengths = Math.hypot(ab[0], ab[1]) * Math.hypot(cb[0], cb[1]);
+  if (lengths === 0) return 180;
+  const cosine = (ab[0] * cb[0] + ab[1] * cb[1]) / lengths;
+  return (Math.acos(Math.min(Math.max(cosine, -1), 1)) * 180) / Math.PI;
+}
+
+// Pixels for one leg, hip through knee to ankle, averaged over the legs that are visible.
+function legPixels(keypoints: Keypoint[]): number | null {
+  const lengths = (["left", "right"] as const).flatMap((side) => {
+    const hip = joint(keypoints, `${side}_hip`);
+    const knee = joint(keypoints, `${side}_knee`);
+    const ankle = joint(keypoints, `${side}_ankle`);
+    return hip && knee && ankle ? [distance(hip, knee) + distance(knee, ankle)] : [];
+  });
+  return lengths.length ? lengths.reduce((acc, value) => acc + value, 0) / lengths.length : null;
+}
+
+function hipCentre(keypoints: Keypoint[]): { x: number; y: number } | null {
+  const left = joint(keypoints, "left_hip");
+  const right = joint(keypoints, "right_hip");
+  if (!left || !right) return null;
+  return { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 };
+}
+
+/**
+ * Foot plants for one foot: frames where its ankle is at a low point of its path and no
+ * higher than the other ankle. The first frame of each plant is kept.
+ */
+function footContacts(frames: FrameSnapshot[], foot: BowlingArm, lastFrame: number) {
+  const contacts: FootContact[] = [];
+  for (let idx = 0; idx <= lastFrame; idx += 1) {
+    const { keypoints, time } = frames[idx];
+    const ankle = joint(keypoints, `${foot}_ankle`);
+    const other = joint(keypoints, `${otherSide(foot)}_ankle`);
+    const leg = legPixels(keypoints);
+    if (!ankle || !leg) continue;
+    if (other && ankle.y < other.y - leg * CONTACT_TOLERANCE) continue;
+    const neighbours = [frames[idx - 1], frames[idx + 1]]
+      .map((frame) => (frame ? joint(frame.keypoints, `${foot}_ankle`) : null))
+      .filter((point): point is Keypoint => point != null);
+    if (neighbours.some((point) => point.y > ankle.y + leg * CONTACT_TOLERANCE)) continue;
+    const previous = contacts[contacts.length - 1];
+    if (previous && time - previous.time < MIN_CONTACT_GAP_SECONDS) continue;
+    contacts.push({ frameIndex: idx, time, foot, pixel: [ankle.x, ankle.y] });
+  }
+  return contacts;
+}
+
+/**
+ * Run-up and delivery-stride kinematics from the hip, knee and ankle keypoints. Front-foot
+ * contact is the landing found for the no-ball check; back-foot contact is the last plant
+ * of the bowling-arm-side foot before it, and load-up starts at the plant before that.
+ */
+export function analyzeRunUp(
+  frames: FrameSnapshot[],
+  releaseFrame: number,
+  landingFrame: number | null,
+  calibration: CameraCalibration | null
+): RunUpReport | null {
+  const release = frames[releaseFrame];
+  const arm = release ? bowlingArm(release.keypoints) : null;
+  if (!arm) return null;
+  const frontFoot = otherSide(arm);
+  const lastFrame = landingFrame ?? releaseFrame;
+
+  const backFootContacts = footContacts(frames, arm, lastFrame).filter(
+    (contact) => contact.frameIndex < lastFrame
+  );
+  const backFoot = backFootContacts[backFootContacts.length - 1] ?? null;
+  const contacts = [...footContacts(frames, frontFoot, lastFrame), ...backFootContacts]
+    .filter((contact) => !backFoot || contact.frameIndex <= backFoot.frameIndex)
+    .sort((a, b) => a.frameIndex - b.frameIndex);
+  const takeOff = backFoot
+    ? [...contacts].reverse().find((contact) => contact.foot === frontFoot)
+    : undefined;
+
+  const metresPerPixel = (frameIndex: number) => {
+    const leg = legPixels(frames[frameIndex].keypoints);
+    return leg ? LEG_LENGTH_METERS / leg : null;
+  };
+  const groundDistance = (from: FootContact, to: FootContact) => {
+    if (calibration) {
+      const a = locateOnGround(calibration, from.pixel);
+      const b = locateOnGround(calibration, to.pixel);
+      if (a && b) return Math.hypot(b[0] - a[0], b[2] - a[2]);
+    }
+    const scales = [metresPerPixel(from.frameIndex), metresPerPixel(to.frameIndex)].filter(
+      (value): value is number => value != null
+    );
+    if (!scales.length) return null;
+    const scale = scales.reduce((acc, value) => acc + value, 0) / scales.length;
+    const [x1, y1] = from.pixel;
+    const [x2, y2] = to.pixel;
+    return Math.hypot(x2 - x1, y2 - y1) * scale;
+  };
+
+  const strideLengths = contacts
+    .slice(1)
+    .map((contact, idx) => groundDistance(contacts[idx], contact))
+    .filter((value): value is number => value != null);
+
+  const landingAnkle =
+    landingFrame != null ? joint(frames[landingFrame].keypoints, `${frontFoot}_ankle`) : null;
+  const frontContact: FootContact | null =
+    landingFrame != null && landingAnkle
+      ? {
+          frameIndex: landingFrame,
+          time: frames[landingFrame].time,
+          foot: frontFoot,
+          pixel: [landingAnkle.x, landingAnkle.y]
+        }
+      : null;
+  const deliveryStrideMeters =
+    backFoot && frontContact ? groundDistance(backFoot, frontContact) : null;
+
+  // Hip centre speed between neighbouring frames, smoothed over three samples.
+  const rawSpeeds: KinematicSample[] = [];
+  for (let idx = 1; idx <= releaseFrame; idx += 1) {
+    const previous = hipCentre(frames[idx - 1].keypoints);
+    const current = hipCentre(frames[idx].keypoints);
+    const scale = metresPerPixel(idx);
+    const dt = frames[idx].time - frames[idx - 1].time;
+    if (!previous || !current || scale == null || dt <= 0) continue;
+    const kph = ((distance(previous, current) * scale) / dt) * 3.6;
+    rawSpeeds.push({ frameIndex: idx, time: frames[idx].time, value: kph });
+  }
+  const approachSpeed = rawSpeeds.map((sample, idx) => {
+    const nearby = rawSpeeds.slice(Math.max(idx - 1, 0), idx + 2);
+    return {
+      ...sample,
+      value: nearby.reduce((acc, entry) => acc + entry.value, 0) / nearby.length
+    };
+  });
+  const approachEnd = backFoot?.time ?? release.time;
+  const approachSpeedKph = median(
+    approachSpeed
+      .filter(
+        (sample) =>
+          sample.time <= approachEnd && sample.time >= approachEnd - APPROACH_WINDOW_SECONDS
+      )
+      .map((sample) => sample.value)
+  );
+
+  const kneeAt = (keypoints: Keypoint[]) => {
+    const hip = joint(keypoints, `${frontFoot}_hip`);
+    const knee = joint(keypoints, `${frontFoot}_knee`);
+    const ankle = joint(keypoints, `${frontFoot}_ankle`);
+    return hip && knee && ankle ? 180 - jointAngle(hip, knee, ankle) : null;
+  };
+  const kneeFlexion = frames
+    .slice(landingFrame ?? releaseFrame, releaseFrame + 1)
+    .flatMap((frame, offset) => {
+      const value = kneeAt(frame.keypoints);
+      const frameIndex = (landingFrame ?? releaseFrame) + offset;
+      return value == null ? [] : [{ frameIndex, time: frame.time, value }];
+    });
+
+  return {
+    contacts,
+    strideLengths,
+    approachSpeed,
+    approachSpeedKph,
+    loadUpFrame: takeOff?.frameIndex ?? backFoot?.frameIndex ?? null,
+    backFootFrame: backFoot?.frameIndex ?? null,
+    frontFootFrame: landingFrame,
+    deliveryStrideMeters,
+    hipShoulderSeparation: hipShoulderSeparation(release.keypoints),
+    frontKneeFlexion: kneeAt(release.keypoints),
+    kneeFlexion,
+    scale: calibration ? "calibrated" : "body"
+  };
+}
+
+/** Angle between the hip line and the shoulder line as seen by the camera, 0–90°. */
+export function hipShoulderSeparation(keypoints: Keypoint[]): number | null {
+  const points = ["left_hip", "right_hip", "left_shoulder", "right_shoulder"].map((name) =>
+    joint(keypoints, name)
+  );
+  if (points.some((point) => !point)) return null;
+  const [leftHip, rightHip, leftShoulder, rightShoulder] = points as Keypoint[];
+  const hips = Math.atan2(rightHip.y - leftHip.y, rightHip.x - leftHip.x);
+  const shoulders = Math.atan2(
+    rightShoulder.y - leftShoulder.y,
+    rightShoulder.x - leftShoulder.x
+  );
+  const degrees = Math.abs(((shoulders - hips) * 180) / Math.PI) % 180;
+  return Math.min(degrees, 180 - degrees);
+}
@@ -0,0 +1,151 @@
+import type { AnalysisResult, ClipSource, StoredAngle } from "../components/VideoAnalyzer";
+import { measuredValue } from "./confidence";
+
+export interface Delivery {
+  // The clip's storage key, so re-analysing the same clip finds its delivery again.
+  id: string;
+  clipName: string;
+  recordedAt: number;
+  bowler: string;
+  // Bowler profile the delivery is attached to; null when it belongs to nobody yet.
+  profileId: string | null;
+  notes: string;
+  analysis: AnalysisResult;
+  // Source clips and samples; null when the delivery was imported without its video.
+  angles: StoredAngle[] | null;
+}
+
+export interface Session {
+  id: string;
+  name: string;
+  createdAt: number;
+  deliveries: Delivery[];
+}
+
+export interface SpellSummary {
+  deliveries: number;
+  paceMinKph: number | null;
+  paceMaxKph: number | null;
+  paceAverageKph: number | null;
+  averageReleaseHeight: number | null;
+  seamAngleSpread: number | null;
+}
+
+export function createId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createSession(name = "Untitled Spell"): Session {
+  return { id: createId(), name, createdAt: Date.now(), deliveries: [] };
+}
+
+/**
+ * Re-analysing a clip (new calibration, extra camera angles) updates its delivery in
+ * place; a clip not yet in the session is appended as the next ball of the spell.
+ */
+export function upsertDelivery(
+  session: Session,
+  clip: ClipSource,
+  analysis: AnalysisResult
+): { session: Session; delivery: Delivery } {
+  const existing = session.deliveries.find((delivery) => delivery.id === clip.key);
+  if (existing) {
+    const delivery = { ...existing, analysis, angles: clip.angles };
+    return {
+      session: {
+        ...session,
+        deliveries: session.deliveries.map((entry) => (entry.id === clip.key ? delivery : entry))
+      },
+      delivery
+    };
+  }
+
+  const previous = session.deliveries[session.deliveries.length - 1];
+  const delivery: Delivery = {
+    id: clip.key,
+    clipName: clip.name,
+    recordedAt: Date.now(),
+    bowler: previous?.bowler ?? "",
+    profileId: previous?.profileId ?? null,
+    notes: "",
+    analysis,
+    angles: clip.angles
+  };
+  return { session: { ...session, deliveries: [...session.deliveries, delivery] }, delivery };
+}
+
+/**
+ * Adds an imported delivery, replacing any delivery of the same clip wholesale. Clips already
+ * in the session are kept when the import carries none.
+ */
+export function importDelivery(session: Session, delivery: Delivery): Session {
+  const existing = session.deliveries.find((entry) => entry.id === delivery.id);
+  if (!existing) return { ...session, deliveries: [...session.deliveries, delivery] };
+  const merged = { ...delivery, angles: delivery.angles ?? existing.angles };
+  return {
+    ...session,
+    deliveries: session.deliveries.map((entry) => (entry === existing ? merged : entry))
+  };
+}
+
+export function updateDelivery(
+  session: Session,
+  id: string,
+  changes: Partial<Pick<Delivery, "bowler" | "profileId" | "notes">>
+): Session {
+  return {
+    ...session,
+    deliveries: session.deliveries.map((delivery) =>
+      delivery.id === id ? { ...delivery, ...changes } : delivery
+    )
+  };
+}
+
+export function removeDelivery(session: Session, id: string): Session {
+  return { ...session, deliveries: session.deliveries.filter((delivery) => delivery.id !== id) };
+}
+
+export function moveDelivery(session: Session, id: string, direction: -1 | 1): Session {
+  const index = session.deliveries.findIndex((delivery) => delivery.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= session.deliveries.length) return session;
+  const deliveries = [...session.deliveries];
+  [deliveries[index], deliveries[target]] = [deliveries[target], deliveries[index]];
+  return { ...session, deliveries };
+}
+
+/** Release pace for lists of deliveries; "--" when it was not measured. */
+export function formatPace(delivery: Delivery): string {
+  const pace = measuredValue(delivery.analysis, "releaseSpeedKph");
+  return pace == null ? "--" : `${Math.round(pace)} km/h`;
+}
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((acc, value) => acc + value, 0) / values.length : null;
+
+export function summarizeSpell(deliveries: Delivery[]): SpellSummary {
+  // Placeholder paces would drag the spell towards a made-up figure.
+  const paces = deliveries.flatMap((delivery) => {
+    const pace = measuredValue(delivery.analysis, "releaseSpeedKph");
+    return pace == null ? [] : [pace];
+  });
+  const seamAngles = deliveries.map((delivery) => delivery.analysis.summary.seamAngle);
+  const seamMean = mean(seamAngles);
+
+  return {
+    deliveries: deliveries.length,
+    paceMinKph: paces.length ? Math.min(...paces) : null,
+    paceMaxKph: paces.length ? Math.max(...paces) : null,
+    paceAverageKph: mean(paces),
+    averageReleaseHeight: mean(
+      deliveries.map((delivery) => delivery.analysis.summary.releaseHeight)
+    ),
+    seamAngleSpread:
+      seamMean == null
+        ? null
+        : Math.sqrt(mean(seamAngles.map((angle) => (angle - seamMean) ** 2)) ?? 0)
+  };
+}
@@ -0,0 +1,420 @@
+export type Vec3 = [number, number, number];
+
+export interface TrajectorySample {
+  time: number;
+  position: Vec3;
+  weight: number;
+}
+
+export interface TrajectoryFit {
+  path: Vec3[];
+  pathTimes: number[];
+  releaseTime: number;
+  bounceTime: number | null;
+  stumpsTime: number;
+  pitchingPoint: Vec3 | null;
+  bounceHeight: number;
+  // Whether the path off the pitch was fitted to sightings after the bounce; otherwise it is
+  // the incoming path bounced without deviation, and says nothing about seam movement.
+  reboundFitted: boolean;
+  // False when the path runs out of time or bounces too often to get there; the stumps
+  // height and line are then where it stopped and say nothing about the stumps.
+  reachesStumps: boolean;
+  stumpsHeight: number;
+  stumpsLine: number;
+  releaseSpeedKph: number;
+  residual: number;
+}
+
+interface BallState {
+  position: Vec3;
+  velocity: Vec3;
+  // Constant sideways acceleration from swing, in m/s², zero after the bounce.
+  sideAcceleration: number;
+}
+
+export const PITCH_LENGTH_METERS = 20.12;
+export const BALL_RADIUS_METERS = 0.036;
+
+const GRAVITY = 9.81;
+// 0.5 * air density * drag coefficient * cross-section / mass for a 156 g ball.
+const DRAG_CONSTANT = 0.0069;
+const RESTITUTION = 0.52;
+const BOUNCE_FRICTION = 0.86;
+const STEP_SECONDS = 0.002;
+const MAX_FLIGHT_SECONDS = 2.5;
+const DRAG_ITERATIONS = 4;
+const PATH_SAMPLE_SECONDS = 0.01;
+// Fewer observations than this cannot separate swing from noise in the lateral positions.
+const MIN_SWING_SAMPLES = 5;
+// Even big late swing stays well under this.
+const MAX_SIDE_ACCELERATION = 12;
+// Height above the ground the fit may still be at the observed bounce and be snapped down.
+const BOUNCE_SNAP_METERS = 0.15;
+// Further bounces after pitching before a ball short of the stumps is given up on.
+const MAX_REBOUNDS = 3;
+
+function integrate(state: BallState, dt: number): BallState {
+  const [vx, vy, vz] = state.velocity;
+  const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+  const velocity: Vec3 = [
+    vx + (state.sideAcceleration - DRAG_CONSTANT * speed * vx) * dt,
+    vy - (GRAVITY + DRAG_CONSTANT * speed * vy) * dt,
+    vz - DRAG_CONSTANT * speed * vz * dt
+  ];
+  return {
+    velocity,
+    sideAcceleration: state.sideAcceleration,
+    position: [
+      state.position[0] + velocity[0] * dt,
+      state.position[1] + velocity[1] * dt,
+      state.position[2] + velocity[2] * dt
+    ]
+  };
+}
+
+function positionsAt(state: BallState, offsets: number[]): Vec3[] {
+  const order = offsets.map((_, idx) => idx).sort((a, b) => offsets[a] - offsets[b]);
+  const output: Vec3[] = offsets.map(() => state.position);
+  let current = state;
+  let elapsed = 0;
+  order.forEach((idx) => {
+    while (elapsed + STEP_SECONDS <= offsets[idx]) {
+      current = integrate(current, STEP_SECONDS);
+      elapsed += STEP_SECONDS;
+    }
+    const remainder = offsets[idx] - elapsed;
+    output[idx] = remainder > 0 ? integrate(current, remainder).position : current.position;
+  });
+  return output;
+}
+
+function simulateUntil(
+  state: BallState,
+  stop: (state: BallState, elapsed: number) => boolean
+): { states: BallState[]; elapsed: number } {
+  const states: BallState[] = [state];
+  let current = state;
+  let elapsed = 0;
+  while (elapsed < MAX_FLIGHT_SECONDS && !stop(current, elapsed)) {
+    current = integrate(current, STEP_SECONDS);
+    elapsed += STEP_SECONDS;
+    states.push(current);
+  }
+  return { states, elapsed };
+}
+
+// Weighted least squares for value = intercept + slope * t.
+function fitLine(
+  offsets: number[],
+  values: number[],
+  weights: number[]
+): { intercept: number; slope: number } {
+  let sw = 0;
+  let st = 0;
+  let sv = 0;
+  let stt = 0;
+  let stv = 0;
+  offsets.forEach((t, idx) => {
+    const w = weights[idx];
+    sw += w;
+    st += w * t;
+    sv += w * values[idx];
+    stt += w * t * t;
+    stv += w * t * values[idx];
+  });
+  const denominator = sw * stt - st * st;
+  if (sw === 0) return { intercept: 0, slope: 0 };
+  if (Math.abs(denominator) < 1e-9) return { intercept: sv / sw, slope: 0 };
+  const slope = (sw * stv - st * sv) / denominator;
+  return { intercept: (sv - slope * st) / sw, slope };
+}
+
+// Weighted least squares for value = intercept + slope * t + 0.5 * acceleration * t².
+function fitParabola(
+  offsets: number[],
+  values: number[],
+  weights: number[]
+): { intercept: number; slope: number; acceleration: number } {
+  // Normal equations, solved by Cramer's rule.
+  const moments = [0, 1, 2, 3, 4].map((power) =>
+    offsets.reduce((acc, t, idx) => acc + weights[idx] * t ** power, 0)
+  );
+  const rhs = [0, 1, 2].map((power) =>
+    offsets.reduce((acc, t, idx) => acc + weights[idx] * t ** power * values[idx], 0)
+  );
+  const matrix = [0, 1, 2].map((row) => [0, 1, 2].map((col) => moments[row + col]));
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+  const denominator = det(matrix);
+  if (Math.abs(denominator) < 1e-12) {
+    return { ...fitLine(offsets, values, weights), acceleration: 0 };
+  }
+  const [intercept, slope, half] = [0, 1, 2].map((col) => {
+    const replaced = matrix.map((row, idx) =>
+      row.map((value, column) => (column === col ? rhs[idx] : value))
+    );
+    return det(replaced) / denominator;
+  });
+  return { intercept, slope, acceleration: half * 2 };
+}
+
+/**
+ * Fits the initial state of a ballistic segment starting at `startTime`. A drag-free
+ * closed-form fit seeds the state, then residuals against the drag model are folded
+ * back in until they settle. With `swing`, a constant sideways acceleration is fitted
+ * too, so the path can curve in the air.
+ */
+function fitSegment(samples: TrajectorySample[], startTime: number, swing = false): BallState {
+  const offsets = samples.map((sample) => sample.time - startTime);
+  const weights = samples.map((sample) => Math.max(sample.weight, 1e-3));
+  const axes = [0, 1, 2].map((axis) =>
+    fitLine(
+      offsets,
+      samples.map((sample, idx) =>
+        axis === 1
+          ? sample.position[1] + 0.5 * GRAVITY * offsets[idx] * offsets[idx]
+          : sample.position[axis]
+      ),
+      weights
+    )
+  );
+  const lateral =
+    swing && samples.length >= MIN_SWING_SAMPLES
+      ? fitParabola(
+          offsets,
+          samples.map((sample) => sample.position[0]),
+          weights
+        )
+      : { ...axes[0], acceleration: 0 };
+  let state: BallState = {
+    position: [lateral.intercept, axes[1].intercept, axes[2].intercept],
+    velocity: [lateral.slope, axes[1].slope, axes[2].slope],
+    sideAcceleration: Math.min(
+      Math.max(lateral.acceleration, -MAX_SIDE_ACCELERATION),
+      MAX_SIDE_ACCELERATION
+    )
+  };
+
+  for (let iteration = 0; iteration < DRAG_ITERATIONS; iteration += 1) {
+    const simulated = positionsAt(state, offsets);
+    const corrections = [0, 1, 2].map((axis) =>
+      fitLine(
+        offsets,
+        samples.map((sample, idx) => sample.position[axis] - simulated[idx][axis]),
+        weights
+      )
+    );
+    state = {
+      position: [
+        state.position[0] + corrections[0].intercept,
+        state.position[1] + corrections[1].intercept,
+        state.position[2] + corrections[2].intercept
+      ],
+      velocity: [
+        state.velocity[0] + corrections[0].slope,
+        state.velocity[1] + corrections[1].slope,
+        state.velocity[2] + corrections[2].slope
+      ],
+      sideAcceleration: state.sideAcceleration
+    };
+  }
+
+  return state;
+}
+
+/** Index of the sample closest to where the observed vertical velocity turns positive. */
+export function findBounceIndex(samples: TrajectorySample[]): number | null {
+  for (let idx = 2; idx < samples.length - 1; idx += 1) {
+    const before =
+      (samples[idx].position[1] - samples[idx - 1].position[1]) /
+      (samples[idx].time - samples[idx - 1].time || STEP_SECONDS);
+    const after =
+      (samples[idx + 1].position[1] - samples[idx].position[1]) /
+      (samples[idx + 1].time - samples[idx].time || STEP_SECONDS);
+    if (before < 0 && after > 0) return idx;
+  }
+  return null;
+}
+
+function bounce(state: BallState): BallState {
+  return {
+    position: [state.position[0], BALL_RADIUS_METERS, state.position[2]],
+    velocity: [
+      state.velocity[0] * BOUNCE_FRICTION,
+      Math.abs(state.velocity[1]) * RESTITUTION,
+      state.velocity[2] * BOUNCE_FRICTION
+    ],
+    sideAcceleration: 0
+  };
+}
+
+function rmsResidual(samples: TrajectorySample[], path: Vec3[], pathTimes: number[]): number {
+  if (!samples.length) return 0;
+  const total = samples.reduce((acc, sample) => {
+    const modelled = interpolatePath(path, pathTimes, sample.time);
+    const dx = modelled[0] - sample.position[0];
+    const dy = modelled[1] - sample.position[1];
+    const dz = modelled[2] - sample.position[2];
+    return acc + dx * dx + dy * dy + dz * dz;
+  }, 0);
+  return Math.sqrt(total / samples.length);
+}
+
+export function interpolatePath(path: Vec3[], pathTimes: number[], time: number): Vec3 {
+  if (!path.length) return [0, 0, 0];
+  if (time <= pathTimes[0]) return path[0];
+  const last = path.length - 1;
+  if (time >= pathTimes[last]) return path[last];
+  let idx = 1;
+  while (pathTimes[idx] < time) idx += 1;
+  const span = pathTimes[idx] - pathTimes[idx - 1] || 1;
+  const ratio = (time - pathTimes[idx - 1]) / span;
+  return [0, 1, 2].map(
+    (axis) => path[idx - 1][axis] + (path[idx][axis] - path[idx - 1][axis]) * ratio
+  ) as Vec3;
+}
+
+/** Position where the path first reaches `depth` along the pitch, or null if it never does. */
+export function pointAtDepth(path: Vec3[], depth: number): Vec3 | null {
+  for (let idx = 1; idx < path.length; idx += 1) {
+    const prev = path[idx - 1];
+    const curr = path[idx];
+    if (prev[2] <= depth && curr[2] >= depth) {
+      const ratio = (depth - prev[2]) / (curr[2] - prev[2] || 1);
+      return [0, 1, 2].map((axis) => prev[axis] + (curr[axis] - prev[axis]) * ratio) as Vec3;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fits observed ball positions (release onwards) to a gravity + drag projectile that may
+ * swing sideways until it pitches, bounces it off the pitch with a coefficient of
+ * restitution and projects it to the stump line. A `bounceTime` marked by hand replaces the
+ * bounce found in the observations. Null with too few observations, or when the fitted
+ * flight is still well above the pitch at the observed bounce.
+ * Positions are pitch coordinates: x lateral, y height, z distance from the bowler's end.
+ */
+export function reconstructTrajectory(
+  samples: TrajectorySample[],
+  options: { bounceTime?: number } = {}
+): TrajectoryFit | null {
+  const observed = samples
+    .filter((sample) => sample.weight > 0)
+    .sort((a, b) => a.time - b.time);
+  if (observed.length < 3) return null;
+
+  const releaseTime = observed[0].time;
+  const { bounceTime: markedBounce } = options;
+  const bounceIndex =
+    markedBounce == null
+      ? findBounceIndex(observed)
+      : observed.reduce(
+          (best, sample, idx) =>
+            idx > 0 &&
+            Math.abs(sample.time - markedBounce) < Math.abs(observed[best].time - markedBounce)
+              ? idx
+              : best,
+          1
+        );
+  const preBounce = bounceIndex == null ? observed : observed.slice(0, bounceIndex + 1);
+  const postBounce = bounceIndex == null ? [] : observed.slice(bounceIndex);
+  const release = fitSegment(preBounce, releaseTime, true);
+  const observedBounceOffset =
+    bounceIndex == null ? Infinity : observed[bounceIndex].time - releaseTime;
+
+  const flight = simulateUntil(
+    release,
+    (state, elapsed) =>
+      state.position[1] <= BALL_RADIUS_METERS ||
+      state.position[2] >= PITCH_LENGTH_METERS ||
+      elapsed >= observedBounceOffset
+  );
+  let contact = flight.states[flight.states.length - 1];
+  // Stopping at the observed bounce with the fit still in the air means the fit disagrees
+  // with the footage: close enough to the ground it is snapped down, otherwise it failed.
+  const grounded = contact.position[1] <= BALL_RADIUS_METERS;
+  const atObservedBounce =
+    !grounded &&
+    flight.elapsed >= observedBounceOffset &&
+    contact.position[2] < PITCH_LENGTH_METERS;
+  if (atObservedBounce) {
+    if (contact.position[1] > BOUNCE_SNAP_METERS) return null;
+    contact = {
+      ...contact,
+      position: [contact.position[0], BALL_RADIUS_METERS, contact.position[2]]
+    };
+    flight.states[flight.states.length - 1] = contact;
+  }
+  const pitched = grounded || atObservedBounce;
+
+  const path: Vec3[] = [];
+  const pathTimes: number[] = [];
+  const appendPath = (states: BallState[], startTime: number) => {
+    states.forEach((state, idx) => {
+      const time = startTime + idx * STEP_SECONDS;
+      if (pathTimes.length && time - pathTimes[pathTimes.length - 1] < PATH_SAMPLE_SECONDS) {
+        if (idx !== states.length - 1) return;
+      }
+      path.push(state.position);
+      pathTimes.push(time);
+    });
+  };
+  appendPath(flight.states, releaseTime);
+
+  let bounceTime: number | null = null;
+  let pitchingPoint: Vec3 | null = null;
+  let bounceHeight = 0;
+  let reboundFitted = false;
+  let stumpsState = contact;
+  let stumpsTime = releaseTime + flight.elapsed;
+
+  if (pitched) {
+    bounceTime = releaseTime + flight.elapsed;
+    pitchingPoint = [contact.position[0], 0, contact.position[2]];
+    reboundFitted = postBounce.length >= 3;
+    let rebound = reboundFitted ? fitSegment(postBounce, bounceTime) : bounce(contact);
+    stumpsTime = bounceTime;
+    // A ball that comes down again short of the stumps bounces on towards them.
+    for (let leg = 0; leg <= MAX_REBOUNDS; leg += 1) {
+      const afterBounce = simulateUntil(
+        rebound,
+        (state) =>
+          state.position[2] >= PITCH_LENGTH_METERS ||
+          (state.position[1] <= BALL_RADIUS_METERS && state.velocity[1] < 0)
+      );
+      appendPath(afterBounce.states.slice(1), stumpsTime + STEP_SECONDS);
+      if (leg === 0) {
+        bounceHeight = afterBounce.states.reduce(
+          (acc, state) => Math.max(acc, state.position[1]),
+          0
+        );
+      }
+      stumpsState = afterBounce.states[afterBounce.states.length - 1];
+      stumpsTime += afterBounce.elapsed;
+      if (stumpsState.position[2] >= PITCH_LENGTH_METERS) break;
+      if (stumpsState.position[1] > BALL_RADIUS_METERS) break;
+      rebound = bounce(stumpsState);
+    }
+  }
+
+  const [vx, vy, vz] = release.velocity;
+  return {
+    path,
+    pathTimes,
+    releaseTime,
+    bounceTime,
+    stumpsTime,
+    pitchingPoint,
+    bounceHeight,
+    reboundFitted,
+    reachesStumps: stumpsState.position[2] >= PITCH_LENGTH_METERS,
+    stumpsHeight: Math.max(0, stumpsState.position[1]),
+    stumpsLine: stumpsState.position[0],
+    releaseSpeedKph: Math.sqrt(vx * vx + vy * vy + vz * vz) * 3.6,
+    residual: rmsResidual(observed, path, pathTimes)
+  };
+}